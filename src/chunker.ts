@@ -1,8 +1,11 @@
 
-import { DiffFile, DiffChunk, CopilotReviewAgentConfig } from './types';
+import { DiffFile, DiffHunk, DiffChunk, ChunkDefinition, CopilotReviewAgentConfig, ReviewFinding, PriorityRule } from './types';
+import { groupRelatedFiles } from './dependencies';
+import { minimatch } from './minimatch';
 
 /**
- * Priority ordering for file review (lower number = reviewed first).
+ * Default preset for review order, used when no `priority_rules` are
+ * configured (lower number = reviewed first). Geared to Rails apps:
  *   0 – Security-sensitive (controllers, auth)
  *   1 – Routing / configuration
  *   2 – Domain logic (models, services, jobs)
@@ -11,7 +14,7 @@ import { DiffFile, DiffChunk, CopilotReviewAgentConfig } from './types';
  *   5 – Tests / specs
  *   6 – Everything else
  */
-function filePriority(filePath: string): number {
+function presetPriority(filePath: string): number {
   const p = filePath.toLowerCase().replace(/\\/g, '/');
   const segments = p.split('/').filter(Boolean);
   const tokens = segments.flatMap(segment =>
@@ -32,6 +35,214 @@ function filePriority(filePath: string): number {
   return 6;
 }
 
+/** The first `priority_rules` entry matching a path, if any. */
+function matchRule(filePath: string, rules: PriorityRule[]): PriorityRule | undefined {
+  return rules.find(rule => minimatch(filePath, rule.pattern));
+}
+
+/**
+ * Review priority of a file: from the first matching `priority_rules` entry
+ * (files no rule matches come after all of them), or the default preset
+ * when no rules are configured.
+ */
+function filePriority(filePath: string, rules: PriorityRule[]): number {
+  if (rules.length === 0) { return presetPriority(filePath); }
+  return matchRule(filePath, rules)?.priority ?? Math.max(...rules.map(r => r.priority)) + 1;
+}
+
+/** Header suffix naming the categories a priority rule focuses a file on, e.g. " (focus: security)". */
+function describeFocus(file: DiffFile, rules: PriorityRule[]): string {
+  const categories = matchRule(file.path, rules)?.categories;
+  return categories?.length ? ` (focus: ${categories.join(', ')})` : '';
+}
+
+/** Header suffix for one part of a file split across chunks, e.g. " (part 2 of 3)". */
+export function describePart(file: DiffFile): string {
+  return file.part ? ` (part ${file.part.index} of ${file.part.total})` : '';
+}
+
+/** Header suffix for renamed/copied files, e.g. " (renamed from old/path.ts, 92% similar)". */
+function describeOrigin(file: DiffFile): string {
+  if (!file.oldPath || (!file.isRenamed && !file.isCopied)) { return ''; }
+  const verb = file.isRenamed ? 'renamed' : 'copied';
+  const similarity = file.similarity !== undefined ? `, ${file.similarity}% similar` : '';
+  return ` (${verb} from ${file.oldPath}${similarity})`;
+}
+
+/** A removed line, numbered in the old file. */
+interface RemovedLine {
+  oldLine: number;
+  text: string;
+}
+
+/**
+ * Group a hunk's removed lines by the new-file line they precede, so they can
+ * be interleaved with the full new-file content. Removals at the end of a hunk
+ * anchor to the line just after it.
+ */
+function removedLinesByAnchor(hunk: DiffHunk): Map<number, RemovedLine[]> {
+  const anchors = new Map<number, RemovedLine[]>();
+  if (hunk.removedLines.length === 0) { return anchors; }
+
+  // For a pure deletion ("+N,0") git reports the line *before* the gap.
+  let newLine = hunk.newLines === 0 ? hunk.newStart + 1 : hunk.newStart;
+  let oldLine = hunk.oldStart;
+  for (const dl of hunk.content.split('\n').slice(1)) {
+    if (dl.startsWith('+')) {
+      newLine++;
+    } else if (dl.startsWith('-')) {
+      const group = anchors.get(newLine) ?? [];
+      group.push({ oldLine, text: dl.slice(1) });
+      anchors.set(newLine, group);
+      oldLine++;
+    } else if (!dl.startsWith('\\')) {
+      newLine++;
+      oldLine++;
+    }
+  }
+  return anchors;
+}
+
+/**
+ * Whether a hunk only moved code: it has changed lines, and git detected every
+ * added and removed line as part of a moved block.
+ */
+function isPureMove(hunk: DiffHunk): boolean {
+  const moved = new Set(hunk.movedLines ?? []);
+  const movedRemoved = new Set(hunk.movedRemovedLines ?? []);
+  return moved.size + movedRemoved.size > 0
+    && hunk.addedLines.every(l => moved.has(l))
+    && hunk.removedLines.every(l => movedRemoved.has(l));
+}
+
+/**
+ * Whether a finding falls entirely inside hunks that only moved code. Such
+ * findings are about code that did not change, so they are dropped; a moved
+ * block whose surroundings were edited lives in a mixed hunk and is kept.
+ */
+export function isMoveOnlyFinding(file: DiffFile, finding: Pick<ReviewFinding, 'side' | 'startLine' | 'endLine'>): boolean {
+  const oldSide = finding.side === 'old';
+  const ranges = file.hunks.filter(isPureMove).map(h => oldSide
+    ? { start: h.oldStart, end: h.oldStart + h.oldLines - 1 }
+    : { start: h.newStart, end: h.newStart + h.newLines - 1 });
+  if (ranges.length === 0) { return false; }
+  for (let line = finding.startLine; line <= finding.endLine; line++) {
+    if (!ranges.some(r => line >= r.start && line <= r.end)) { return false; }
+  }
+  return true;
+}
+
+/** How far (in lines) a finding may sit from a changed line and still count as about the change. */
+const NEAR_CHANGE_LINES = 5;
+/** Findings further than this from every changed line are dropped rather than snapped to it. */
+const MAX_SNAP_DISTANCE = 20;
+
+/** Outcome of checking a finding's line range against its file's diff. */
+export type FindingPlacement =
+  | { kind: 'ok' }
+  | { kind: 'snapped'; startLine: number; endLine: number }
+  | { kind: 'dropped'; reason: string };
+
+/**
+ * Check a finding's line range against the diff of the file it names: the
+ * file must be in the chunk and the range must overlap or sit near changed
+ * lines (added lines, or removed lines for "old" findings). A range a little
+ * further off, or past the end of the file, is snapped to the nearest
+ * changed line; anything else is dropped with a reason.
+ */
+export function placeFinding(
+  file: DiffFile | undefined,
+  finding: Pick<ReviewFinding, 'side' | 'startLine' | 'endLine'>
+): FindingPlacement {
+  if (!file) { return { kind: 'dropped', reason: 'file not in chunk' }; }
+  const oldSide = finding.side === 'old';
+  const anchors = file.hunks.flatMap(h => {
+    const changed = oldSide ? h.removedLines : h.addedLines;
+    // A hunk with nothing changed on this side is anchored where it sits
+    return changed.length > 0 ? changed : [oldSide ? h.oldStart : h.newStart];
+  });
+  if (anchors.length === 0) { return { kind: 'dropped', reason: 'file has no changed lines' }; }
+
+  // Old-side line counts are unknown: only the new file's length is checked
+  const lineCount = !oldSide && file.fullContent !== undefined && !file.isDeleted
+    ? file.fullContent.split('\n').length
+    : Infinity;
+  const pastEnd = finding.startLine > lineCount;
+  const endLine = Math.min(finding.endLine, lineCount);
+
+  const distance = (line: number) =>
+    line < finding.startLine ? finding.startLine - line : line > endLine ? line - endLine : 0;
+  const nearest = anchors.reduce((best, line) => distance(line) < distance(best) ? line : best);
+  const gap = distance(nearest);
+
+  if (gap > MAX_SNAP_DISTANCE) {
+    return { kind: 'dropped', reason: pastEnd ? 'past end of file' : 'far from changed lines' };
+  }
+  if (!pastEnd && gap <= NEAR_CHANGE_LINES) {
+    // Near the change, but an end past the last line is clamped
+    return endLine === finding.endLine ? { kind: 'ok' } : { kind: 'snapped', startLine: finding.startLine, endLine };
+  }
+  return { kind: 'snapped', startLine: nearest, endLine: nearest };
+}
+
+/** Lines shown around a finding's hunks when it is verified. */
+const FINDING_CONTEXT_LINES = 15;
+
+/**
+ * Focused code window for re-checking one finding: the file's hunks within
+ * reach of the finding's lines, rendered like the review prompt with at
+ * least FINDING_CONTEXT_LINES of context.
+ */
+export function buildFindingContext(
+  file: DiffFile,
+  finding: Pick<ReviewFinding, 'side' | 'startLine' | 'endLine'>,
+  config: CopilotReviewAgentConfig
+): string {
+  const oldSide = finding.side === 'old';
+  const near = file.hunks.filter(h => {
+    const start = oldSide ? h.oldStart : h.newStart;
+    const end = start + (oldSide ? h.oldLines : h.newLines) - 1;
+    return start <= finding.endLine + FINDING_CONTEXT_LINES && end >= finding.startLine - FINDING_CONTEXT_LINES;
+  });
+  return buildFileContext(
+    { ...file, hunks: near.length > 0 ? near : file.hunks, referencedDefinitions: undefined, part: undefined },
+    { ...config, contextLines: Math.max(config.contextLines, FINDING_CONTEXT_LINES) }
+  );
+}
+
+/** Hunks whose context windows overlap, shown as one block [start, end) of 0-indexed lines. */
+interface HunkWindow {
+  start: number;
+  end: number;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Compute each hunk's context window — `contextLines` around the hunk, widened
+ * to its enclosing symbol when one is known — and merge overlapping or adjacent
+ * windows, so that close hunks share one block.
+ */
+function mergeHunkWindows(hunks: DiffHunk[], contextLines: number, lineCount: number): HunkWindow[] {
+  const merged: HunkWindow[] = [];
+  for (const hunk of hunks) {
+    let start = Math.max(0, hunk.newStart - 1 - contextLines);
+    let end = Math.min(lineCount, hunk.newStart - 1 + hunk.newLines + contextLines);
+    if (hunk.enclosingRange) {
+      start = Math.max(0, Math.min(start, hunk.enclosingRange.startLine - 1));
+      end = Math.min(lineCount, Math.max(end, hunk.enclosingRange.endLine));
+    }
+    const last = merged[merged.length - 1];
+    if (last && start <= last.end) {
+      last.start = Math.min(last.start, start);
+      last.end = Math.max(last.end, end);
+      last.hunks.push(hunk);
+    } else {
+      merged.push({ start, end, hunks: [hunk] });
+    }
+  }
+  return merged;
+}
+
 /**
  * Build context strings for a file: the diff hunks plus surrounding file content.
  *
@@ -42,33 +253,28 @@ function filePriority(filePath: string): number {
 export function buildFileContext(file: DiffFile, config: CopilotReviewAgentConfig): string {
   const contextLines = config.contextLines;
   const parts: string[] = [];
-  parts.push(`## File: ${file.path}${file.isNew ? ' (new)' : ''}${file.isDeleted ? ' (deleted)' : ''}`);
+  parts.push(`## File: ${file.path}${file.isNew ? ' (new)' : ''}${file.isDeleted ? ' (deleted)' : ''}${describeOrigin(file)}${describePart(file)}${describeFocus(file, config.priorityRules)}`);
 
   if (file.fullContent && !file.isDeleted) {
     const fileLines = file.fullContent.split('\n');
 
-    // Compute the context window [start, end) for each hunk (0-indexed line positions).
-    const hunkWindows = file.hunks.map(hunk => ({
-      hunk,
-      start: Math.max(0, hunk.newStart - 1 - contextLines),
-      end: Math.min(fileLines.length, hunk.newStart - 1 + hunk.newLines + contextLines),
-    }));
-
-    // Merge overlapping or adjacent windows so that close hunks share one block.
-    const merged: Array<{ start: number; end: number; hunks: typeof file.hunks }> = [];
-    for (const w of hunkWindows) {
-      const last = merged[merged.length - 1];
-      if (last && w.start <= last.end) {
-        last.end = Math.max(last.end, w.end);
-        last.hunks.push(w.hunk);
-      } else {
-        merged.push({ start: w.start, end: w.end, hunks: [w.hunk] });
-      }
-    }
-
-    for (const window of merged) {
+    for (const window of mergeHunkWindows(file.hunks, contextLines, fileLines.length)) {
       const contextSlice = fileLines.slice(window.start, window.end);
       const addedSet = new Set(window.hunks.flatMap(h => h.addedLines));
+      const movedSet = new Set(window.hunks.flatMap(h => h.movedLines ?? []));
+      const movedRemovedSet = new Set(window.hunks.flatMap(h => h.movedRemovedLines ?? []));
+      const removedByAnchor = new Map<number, RemovedLine[]>();
+      for (const hunk of window.hunks) {
+        for (const [anchor, removed] of removedLinesByAnchor(hunk)) {
+          removedByAnchor.set(anchor, [...(removedByAnchor.get(anchor) ?? []), ...removed]);
+        }
+      }
+      const pushRemoved = (removed: RemovedLine[]) => {
+        for (const r of removed) {
+          const prefix = movedRemovedSet.has(r.oldLine) ? '<' : '-';
+          parts.push(`${prefix}${String(r.oldLine).padStart(5)} | ${r.text}`);
+        }
+      };
 
       const hunkHeader = window.hunks.length === 1
         ? `line ${window.hunks[0].newStart} ${window.hunks[0].header}`
@@ -77,10 +283,16 @@ export function buildFileContext(file: DiffFile, config: CopilotReviewAgentConfi
       parts.push('```');
       contextSlice.forEach((line, idx) => {
         const lineNum = window.start + idx + 1;
+        pushRemoved(removedByAnchor.get(lineNum) ?? []);
+        removedByAnchor.delete(lineNum);
         const isAdded = addedSet.has(lineNum);
-        const prefix = isAdded ? '+' : ' ';
+        const prefix = movedSet.has(lineNum) ? '>' : isAdded ? '+' : ' ';
         parts.push(`${prefix}${String(lineNum).padStart(5)} | ${line}`);
       });
+      // Removals after the last shown line (e.g. at the end of the file)
+      for (const removed of removedByAnchor.values()) {
+        pushRemoved(removed);
+      }
       parts.push('```');
     }
   } else {
@@ -93,6 +305,16 @@ export function buildFileContext(file: DiffFile, config: CopilotReviewAgentConfi
     }
   }
 
+  if (file.referencedDefinitions?.length) {
+    parts.push('\n### Referenced definitions');
+    for (const def of file.referencedDefinitions) {
+      parts.push(`\`${def.name}\` — ${def.location}`);
+      parts.push('```');
+      parts.push(def.text);
+      parts.push('```');
+    }
+  }
+
   return parts.join('\n');
 }
 
@@ -101,70 +323,187 @@ export function buildFileContext(file: DiffFile, config: CopilotReviewAgentConfi
  * Uses a rough heuristic (~3.5 chars per token) as a fallback.
  * When a model is available, use model.countTokens() for accuracy.
  */
-function estimateTokens(text: string): number {
+export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 3.5);
 }
 
+/** How much diff context fits in one review request, and how to measure it. */
+export interface TokenBudget {
+  /** Tokens available for the diff context of one request. */
+  maxTokens: number;
+  /** Count the tokens of a text for the model the chunks are sent to. */
+  countTokens(text: string): Promise<number>;
+}
+
+/** Budget used when no model is known: a fixed size and the character heuristic. */
+export const DEFAULT_TOKEN_BUDGET: TokenBudget = {
+  maxTokens: 40_000,
+  countTokens: async text => estimateTokens(text),
+};
+
+/**
+ * Split a file that exceeds the budget into parts made of whole hunk windows,
+ * each fitting the budget where possible. A single window larger than the
+ * budget still becomes one part of its own.
+ */
+async function splitFile(
+  file: DiffFile,
+  config: CopilotReviewAgentConfig,
+  budget: TokenBudget
+): Promise<DiffChunk[]> {
+  const lineCount = file.fullContent && !file.isDeleted ? file.fullContent.split('\n').length : Infinity;
+  // Referenced definitions are not tracked per hunk, and repeating all of them
+  // in every part would spend the budget the split is meant to save
+  const source: DiffFile = { ...file, referencedDefinitions: undefined };
+  const groups: Array<{ hunks: DiffHunk[]; tokens: number }> = [];
+  for (const window of mergeHunkWindows(file.hunks, config.contextLines, lineCount)) {
+    const tokens = await budget.countTokens(buildFileContext({ ...source, hunks: window.hunks }, config));
+    const current = groups[groups.length - 1];
+    if (current && current.tokens + tokens <= budget.maxTokens) {
+      current.hunks.push(...window.hunks);
+      current.tokens += tokens;
+    } else {
+      groups.push({ hunks: [...window.hunks], tokens });
+    }
+  }
+  return groups.map((group, i) => ({
+    files: [{ ...source, hunks: group.hunks, part: { index: i + 1, total: groups.length } }],
+    tokenEstimate: group.tokens,
+  }));
+}
+
 /**
  * Chunks diff files into batches sized for AI model token limits.
  *
  * Strategy:
  * - Sort files by priority (security-sensitive first)
+ * - Keep files that import each other, and tests with the source file they
+ *   cover, in the same chunk when the group fits. A group is reviewed at the
+ *   priority of its highest-priority member, and its members in priority order
  * - Group files into chunks that fit within the token budget
- * - Large files get their own chunk (split across hunks if needed)
+ * - Files over the budget are split by hunk window into "part N of M"
+ *   chunks of their own
  */
-export function chunkDiffFiles(
+export async function chunkDiffFiles(
   files: DiffFile[],
   config: CopilotReviewAgentConfig,
-  tokenBudget: number = 40_000
-): DiffChunk[] {
+  budget: TokenBudget = DEFAULT_TOKEN_BUDGET
+): Promise<DiffChunk[]> {
+  const tokenBudget = budget.maxTokens;
   // Filter out files with no hunks (binary, no changes)
   const reviewable = files.filter(f => f.hunks.length > 0 && !f.isBinary);
 
-  // Sort by priority
-  const sorted = [...reviewable].sort((a, b) => filePriority(a.path) - filePriority(b.path));
+  // Sort by priority. Groups keep the order of their first, thus highest-priority,
+  // member; within a group the stable sort keeps import order among equals.
+  const byPriority = (a: DiffFile, b: DiffFile) =>
+    filePriority(a.path, config.priorityRules) - filePriority(b.path, config.priorityRules);
+  const sorted = [...reviewable].sort(byPriority);
+  const groups = groupRelatedFiles(sorted).map(group => group.sort(byPriority));
 
   const chunks: DiffChunk[] = [];
   let currentFiles: DiffFile[] = [];
   let currentTokens = 0;
+  const flush = () => {
+    if (currentFiles.length > 0) {
+      chunks.push({ files: currentFiles, tokenEstimate: currentTokens });
+      currentFiles = [];
+      currentTokens = 0;
+    }
+  };
 
-  for (const file of sorted) {
-    const context = buildFileContext(file, config);
-    const tokens = estimateTokens(context);
-
-    // If this single file exceeds the budget, give it its own chunk
-    if (tokens > tokenBudget) {
-      // Flush current chunk
-      if (currentFiles.length > 0) {
-        chunks.push({ files: currentFiles, tokenEstimate: currentTokens });
-        currentFiles = [];
-        currentTokens = 0;
-      }
-      chunks.push({ files: [file], tokenEstimate: tokens });
-      continue;
+  for (const group of groups) {
+    const sized: Array<{ file: DiffFile; tokens: number }> = [];
+    for (const file of group) {
+      sized.push({ file, tokens: await budget.countTokens(buildFileContext(file, config)) });
     }
+    const groupTokens = sized.reduce((n, s) => n + s.tokens, 0);
 
-    // If adding this file exceeds the budget or max files, start a new chunk
-    if (
-      currentTokens + tokens > tokenBudget ||
-      currentFiles.length >= config.maxFilesPerChunk
-    ) {
-      if (currentFiles.length > 0) {
-        chunks.push({ files: currentFiles, tokenEstimate: currentTokens });
+    // Start a fresh chunk rather than break up a group that would fit in one
+    const fitsInChunk = group.length > 1 && groupTokens <= tokenBudget && group.length <= config.maxFilesPerChunk;
+    if (fitsInChunk && (currentTokens + groupTokens > tokenBudget || currentFiles.length + group.length > config.maxFilesPerChunk)) {
+      flush();
+    }
+
+    for (const { file, tokens } of sized) {
+      // If this single file exceeds the budget, split it into chunks of its own
+      if (tokens > tokenBudget) {
+        flush();
+        const parts = await splitFile(file, config, budget);
+        chunks.push(...(parts.length > 1 ? parts : [{ files: [file], tokenEstimate: tokens }]));
+        continue;
+      }
+
+      // If adding this file exceeds the budget or max files, start a new chunk
+      if (
+        currentTokens + tokens > tokenBudget ||
+        currentFiles.length >= config.maxFilesPerChunk
+      ) {
+        flush();
       }
-      currentFiles = [file];
-      currentTokens = tokens;
-    } else {
       currentFiles.push(file);
       currentTokens += tokens;
     }
   }
 
   // Flush remaining
-  if (currentFiles.length > 0) {
-    chunks.push({ files: currentFiles, tokenEstimate: currentTokens });
-  }
+  flush();
+
+  return chunks;
+}
 
+/** New-file line range of a hunk; a pure deletion covers the line it follows. */
+function hunkRange(hunk: DiffHunk): { start: number; end: number } {
+  return { start: hunk.newStart, end: hunk.newStart + Math.max(hunk.newLines, 1) - 1 };
+}
+
+/** Record which files and hunks make up a chunk. */
+export function describeChunk(chunk: DiffChunk): ChunkDefinition {
+  return {
+    files: chunk.files.map(f => ({
+      path: f.path,
+      ...(f.part ? { part: f.part } : {}),
+      hunks: f.hunks.map(hunkRange),
+    })),
+  };
+}
+
+/**
+ * Rebuild chunks from their definitions against a fresh diff. Whole files
+ * take all their current hunks; parts of split files take the hunks that
+ * overlap the recorded ranges. Files no longer in the diff are dropped, and
+ * so are chunks left empty.
+ */
+export async function rebuildChunks(
+  definitions: ChunkDefinition[],
+  files: DiffFile[],
+  config: CopilotReviewAgentConfig,
+  budget: TokenBudget = DEFAULT_TOKEN_BUDGET
+): Promise<DiffChunk[]> {
+  const chunks: DiffChunk[] = [];
+  for (const definition of definitions) {
+    const chunkFiles: DiffFile[] = [];
+    let tokenEstimate = 0;
+    for (const entry of definition.files) {
+      const file = files.find(f => f.path === entry.path);
+      if (!file || file.isBinary) { continue; }
+      const hunks = entry.part
+        ? file.hunks.filter(h => {
+          const range = hunkRange(h);
+          return entry.hunks.some(r => range.start <= r.end && range.end >= r.start);
+        })
+        : file.hunks;
+      if (hunks.length === 0) { continue; }
+      // Parts never carry referenced definitions (see splitFile)
+      const rebuilt: DiffFile = entry.part
+        ? { ...file, hunks, part: entry.part, referencedDefinitions: undefined }
+        : file;
+      chunkFiles.push(rebuilt);
+      tokenEstimate += await budget.countTokens(buildFileContext(rebuilt, config));
+    }
+    if (chunkFiles.length > 0) {
+      chunks.push({ files: chunkFiles, tokenEstimate });
+    }
+  }
   return chunks;
 }
 
@@ -1,6 +1,20 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { ReviewFinding, SEVERITY_EMOJI } from './types';
+import { resolvePath } from './git';
+
+/**
+ * The document a finding's line numbers refer to. Findings on removed lines
+ * ("old" side) point at the base version through the built-in git extension's
+ * `git:` scheme, which is also the left-hand side of the diff editor.
+ */
+export async function findingUri(finding: ReviewFinding, workspaceFolder: vscode.WorkspaceFolder): Promise<vscode.Uri> {
+  if (finding.side !== 'old' || !finding.baseRef) {
+    return vscode.Uri.file(await resolvePath(workspaceFolder.uri.fsPath, finding.file));
+  }
+  const oldUri = vscode.Uri.file(await resolvePath(workspaceFolder.uri.fsPath, finding.oldFile ?? finding.file));
+  return oldUri.with({ scheme: 'git', query: JSON.stringify({ path: oldUri.fsPath, ref: finding.baseRef }) });
+}
 
 /**
  * Manages inline review comments in the editor using the VS Code Comment Controller API.
@@ -10,6 +24,8 @@ export class CommentManager {
   private threads: Map<string, vscode.CommentThread> = new Map();
   /** Reverse lookup: thread → finding ID, avoids repurposing contextValue */
   private threadToFindingId: WeakMap<vscode.CommentThread, string> = new WeakMap();
+  /** Bumped by clearAll, so a thread whose file was still resolving is not created afterwards. */
+  private generation = 0;
 
   constructor() {
     this.controller = vscode.comments.createCommentController('copilot-review-agent', 'Copilot Review Agent');
@@ -23,8 +39,10 @@ export class CommentManager {
   /**
    * Create a comment thread for a review finding.
    */
-  addFinding(finding: ReviewFinding, workspaceFolder: vscode.WorkspaceFolder): vscode.CommentThread {
-    const uri = vscode.Uri.joinPath(workspaceFolder.uri, finding.file);
+  async addFinding(finding: ReviewFinding, workspaceFolder: vscode.WorkspaceFolder): Promise<vscode.CommentThread | undefined> {
+    const generation = this.generation;
+    const uri = await findingUri(finding, workspaceFolder);
+    if (generation !== this.generation) { return undefined; }
     const startLine = Math.max(0, finding.startLine - 1); // 0-based
     const endLine = Math.max(startLine, finding.endLine - 1);
 
@@ -44,7 +62,10 @@ export class CommentManager {
     };
 
     const thread = this.controller.createCommentThread(uri, range, [comment]);
-    thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+    // Findings the verifier refuted stay out of the way until opened
+    thread.collapsibleState = finding.verification?.verdict === 'refuted'
+      ? vscode.CommentThreadCollapsibleState.Collapsed
+      : vscode.CommentThreadCollapsibleState.Expanded;
     thread.canReply = false;
     thread.label = finding.title;
 
@@ -64,10 +85,24 @@ export class CommentManager {
     // Severity badge
     const emoji = SEVERITY_EMOJI[finding.severity] ?? '⚪';
 
-    md.appendMarkdown(`${emoji} **${finding.severity.toUpperCase()}** — ${finding.category}\n\n`);
+    md.appendMarkdown(`${emoji} **${finding.severity.toUpperCase()}** — ${finding.category}`);
+    if (finding.confidence !== undefined) {
+      md.appendMarkdown(` — ${Math.round(finding.confidence * 100)}% confidence`);
+    }
+    if (finding.commit) {
+      md.appendMarkdown(` — introduced in \`${finding.commit.slice(0, 7)}\``);
+    }
+    if (finding.side === 'old') {
+      md.appendMarkdown(` — removed code`);
+    }
+    md.appendMarkdown(`\n\n`);
     md.appendMarkdown(`### ${finding.title}\n\n`);
     md.appendMarkdown(`${finding.description}\n\n`);
 
+    if (finding.verification?.verdict === 'refuted') {
+      md.appendMarkdown(`⚠️ **Low confidence** — the verification pass refuted this finding: ${finding.verification.reasoning}\n\n`);
+    }
+
     if (finding.suggestedFix) {
       const lang = path.extname(finding.file).slice(1) || 'text';
       md.appendMarkdown(`---\n\n`);
@@ -93,6 +128,7 @@ export class CommentManager {
    * Remove all comment threads and clear the map.
    */
   clearAll(): void {
+    this.generation++;
     for (const thread of this.threads.values()) {
       thread.dispose();
     }
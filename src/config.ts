@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
-import { CopilotReviewAgentConfig, Severity, Category } from './types';
+import { CopilotReviewAgentConfig, Severity, Category, PriorityRule, VerificationMode } from './types';
+import { isValidCategory, isValidSeverity } from './findings';
 
 const DEFAULT_CONFIG: CopilotReviewAgentConfig = {
   baseBranch: 'main',
@@ -12,26 +13,17 @@ const DEFAULT_CONFIG: CopilotReviewAgentConfig = {
   categories: ['security', 'performance', 'correctness', 'maintainability', 'testing', 'style'],
   customInstructions: '',
   maxFindings: 50,
+  ignoreWhitespace: false,
+  detectMovedCode: false,
+  definitionContextTokens: 2000,
+  priorityRules: [],
+  maxParallelRequests: 3,
+  verifyFindings: 'off',
+  minConfidence: 0,
 };
 
-const validSeverities: Severity[] = ['blocker', 'high', 'medium', 'low', 'nit'];
-
-const validCategories: Category[] = [
-  'security',
-  'performance',
-  'correctness',
-  'maintainability',
-  'testing',
-  'style',
-  'other',
-];
-
-function isValidSeverity(s: unknown): s is Severity {
-  return typeof s === 'string' && validSeverities.includes(s as Severity);
-}
-
-function isValidCategory(c: unknown): c is Category {
-  return typeof c === 'string' && validCategories.includes(c as Category);
+function isValidVerificationMode(m: unknown): m is VerificationMode {
+  return m === 'off' || m === 'demote' || m === 'drop';
 }
 
 /**
@@ -43,11 +35,15 @@ function isValidCategory(c: unknown): c is Category {
  *   3. Built-in defaults
  *
  * .copilot-review-agent-instructions.md content is appended to any yaml custom_instructions.
+ * Both files, and folder-scoped settings, are read from `workspaceFolder` (the
+ * repository under review), defaulting to the first workspace folder.
  */
-export async function loadConfig(): Promise<CopilotReviewAgentConfig> {
-  const vsConfig = vscode.workspace.getConfiguration('copilotReviewAgent');
-  const fileConfig = await loadYamlConfig();
-  const instructionsFile = await loadInstructionsFile();
+export async function loadConfig(
+  workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+): Promise<CopilotReviewAgentConfig> {
+  const vsConfig = vscode.workspace.getConfiguration('copilotReviewAgent', workspaceFolder?.uri);
+  const fileConfig = await loadYamlConfig(workspaceFolder);
+  const instructionsFile = await loadInstructionsFile(workspaceFolder);
 
   // Merge: instructions file content gets appended to any yaml custom_instructions
   const yamlInstructions = fileConfig.customInstructions || '';
@@ -68,10 +64,19 @@ export async function loadConfig(): Promise<CopilotReviewAgentConfig> {
   const userExcludePaths = userValue<string[]>('excludePaths');
   const userMaxFilesPerChunk = userValue<number>('maxFilesPerChunk');
   const userContextLines = userValue<number>('contextLines');
+  const userIgnoreWhitespace = userValue<boolean>('ignoreWhitespace');
+  const userDetectMovedCode = userValue<boolean>('detectMovedCode');
+  const userDefinitionContextTokens = userValue<number>('definitionContextTokens');
+  const userMaxParallelRequests = userValue<number>('maxParallelRequests');
+  const userVerifyFindings = userValue<string>('verifyFindings');
+  const userMinConfidence = userValue<number>('minConfidence');
 
   if (userSeverity !== undefined && !isValidSeverity(userSeverity)) {
     vscode.window.showWarningMessage(`Copilot Review Agent: Invalid severityThreshold "${userSeverity}". Using default.`);
   }
+  if (userVerifyFindings !== undefined && !isValidVerificationMode(userVerifyFindings)) {
+    vscode.window.showWarningMessage(`Copilot Review Agent: Invalid verifyFindings "${userVerifyFindings}". Using default.`);
+  }
 
   // Validate categories from YAML: an explicit empty array would produce a useless
   // review prompt with no focus areas. Warn and fall back to defaults in that case.
@@ -98,6 +103,13 @@ export async function loadConfig(): Promise<CopilotReviewAgentConfig> {
     categories: resolvedCategories,
     customInstructions: combinedInstructions || DEFAULT_CONFIG.customInstructions,
     maxFindings: fileConfig.maxFindings ?? DEFAULT_CONFIG.maxFindings,
+    ignoreWhitespace: userIgnoreWhitespace ?? fileConfig.ignoreWhitespace ?? DEFAULT_CONFIG.ignoreWhitespace,
+    detectMovedCode: userDetectMovedCode ?? fileConfig.detectMovedCode ?? DEFAULT_CONFIG.detectMovedCode,
+    definitionContextTokens: userDefinitionContextTokens ?? fileConfig.definitionContextTokens ?? DEFAULT_CONFIG.definitionContextTokens,
+    priorityRules: fileConfig.priorityRules ?? DEFAULT_CONFIG.priorityRules,
+    maxParallelRequests: Math.max(1, Math.floor(userMaxParallelRequests ?? fileConfig.maxParallelRequests ?? DEFAULT_CONFIG.maxParallelRequests)),
+    verifyFindings: isValidVerificationMode(userVerifyFindings) ? userVerifyFindings : (fileConfig.verifyFindings ?? DEFAULT_CONFIG.verifyFindings),
+    minConfidence: Math.min(1, Math.max(0, userMinConfidence ?? fileConfig.minConfidence ?? DEFAULT_CONFIG.minConfidence)),
   };
 }
 
@@ -105,10 +117,11 @@ export async function loadConfig(): Promise<CopilotReviewAgentConfig> {
 export const INSTRUCTIONS_FILENAME = '.copilot-review-agent-instructions.md';
 
 /**
- * Check whether the instructions file exists and return its URI.
+ * Check whether the repository's instructions file exists and return its URI.
  */
-export async function getInstructionsFilePath(): Promise<vscode.Uri | undefined> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+export async function getInstructionsFilePath(
+  workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+): Promise<vscode.Uri | undefined> {
   if (!workspaceFolder) { return undefined; }
   const uri = vscode.Uri.joinPath(workspaceFolder.uri, INSTRUCTIONS_FILENAME);
   try {
@@ -122,8 +135,8 @@ export async function getInstructionsFilePath(): Promise<vscode.Uri | undefined>
 /**
  * Load the .copilot-review-agent-instructions.md file contents, if it exists.
  */
-async function loadInstructionsFile(): Promise<string> {
-  const uri = await getInstructionsFilePath();
+async function loadInstructionsFile(workspaceFolder: vscode.WorkspaceFolder | undefined): Promise<string> {
+  const uri = await getInstructionsFilePath(workspaceFolder);
   if (!uri) { return ''; }
   try {
     const content = await vscode.workspace.fs.readFile(uri);
@@ -173,12 +186,52 @@ interface FileConfig {
   categories?: Category[];
   customInstructions?: string;
   maxFindings?: number;
+  ignoreWhitespace?: boolean;
+  detectMovedCode?: boolean;
+  definitionContextTokens?: number;
+  priorityRules?: PriorityRule[];
+  maxParallelRequests?: number;
+  verifyFindings?: VerificationMode;
+  minConfidence?: number;
 }
 
-async function loadYamlConfig(): Promise<FileConfig> {
+/**
+ * Validate `priority_rules` entries, warning about (and dropping) malformed ones.
+ * Returns undefined when the key is absent or not a list.
+ */
+function parsePriorityRules(raw: unknown): PriorityRule[] | undefined {
+  if (raw === undefined) { return undefined; }
+  if (!Array.isArray(raw)) {
+    vscode.window.showWarningMessage('Copilot Review Agent: `priority_rules` in .copilot-review-agent.yml must be a list. Ignoring.');
+    return undefined;
+  }
+  const rules: PriorityRule[] = [];
+  for (const item of raw) {
+    const entry = typeof item === 'object' && item !== null ? item as Record<string, unknown> : {};
+    const { pattern, priority, categories } = entry;
+    if (typeof pattern !== 'string' || !pattern || !Number.isFinite(priority)) {
+      vscode.window.showWarningMessage(
+        `Copilot Review Agent: Ignoring priority rule ${JSON.stringify(item)} in .copilot-review-agent.yml — each rule needs a pattern and a numeric priority.`
+      );
+      continue;
+    }
+    if (categories !== undefined && !(Array.isArray(categories) && categories.every(isValidCategory))) {
+      vscode.window.showWarningMessage(
+        `Copilot Review Agent: Invalid categories for priority rule "${pattern}" in .copilot-review-agent.yml. Ignoring them.`
+      );
+    }
+    rules.push({
+      pattern,
+      priority: priority as number,
+      categories: Array.isArray(categories) && categories.length > 0 && categories.every(isValidCategory) ? categories : undefined,
+    });
+  }
+  return rules;
+}
+
+async function loadYamlConfig(workspaceFolder: vscode.WorkspaceFolder | undefined): Promise<FileConfig> {
   const empty: FileConfig = {};
 
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
   if (!workspaceFolder) {
     return empty;
   }
@@ -200,12 +253,23 @@ async function loadYamlConfig(): Promise<FileConfig> {
     const rawMaxFilesPerChunk = parsed['max_files_per_chunk'];
     const rawContextLines = parsed['context_lines'];
     const rawMaxFindings = parsed['max_findings'];
+    const rawIgnoreWhitespace = parsed['ignore_whitespace'];
+    const rawDetectMovedCode = parsed['detect_moved_code'];
+    const rawDefinitionContextTokens = parsed['definition_context_tokens'];
+    const rawMaxParallelRequests = parsed['max_parallel_requests'];
+    const rawVerifyFindings = parsed['verify_findings'];
+    const rawMinConfidence = parsed['min_confidence'];
 
     if (rawSeverityThreshold !== undefined && !isValidSeverity(rawSeverityThreshold)) {
       vscode.window.showWarningMessage(
         `Copilot Review Agent: Invalid severity_threshold "${String(rawSeverityThreshold)}" in .copilot-review-agent.yml. Ignoring.`
       );
     }
+    if (rawVerifyFindings !== undefined && !isValidVerificationMode(rawVerifyFindings)) {
+      vscode.window.showWarningMessage(
+        `Copilot Review Agent: Invalid verify_findings "${String(rawVerifyFindings)}" in .copilot-review-agent.yml. Ignoring.`
+      );
+    }
 
     return {
       baseBranch: typeof parsed['base_branch'] === 'string' ? parsed['base_branch'] : undefined,
@@ -222,6 +286,13 @@ async function loadYamlConfig(): Promise<FileConfig> {
         : undefined,
       customInstructions: typeof parsed['custom_instructions'] === 'string' ? parsed['custom_instructions'] : undefined,
       maxFindings: Number.isFinite(rawMaxFindings) ? rawMaxFindings as number : undefined,
+      ignoreWhitespace: typeof rawIgnoreWhitespace === 'boolean' ? rawIgnoreWhitespace : undefined,
+      detectMovedCode: typeof rawDetectMovedCode === 'boolean' ? rawDetectMovedCode : undefined,
+      definitionContextTokens: Number.isFinite(rawDefinitionContextTokens) ? rawDefinitionContextTokens as number : undefined,
+      priorityRules: parsePriorityRules(parsed['priority_rules']),
+      maxParallelRequests: Number.isFinite(rawMaxParallelRequests) ? rawMaxParallelRequests as number : undefined,
+      verifyFindings: isValidVerificationMode(rawVerifyFindings) ? rawVerifyFindings : undefined,
+      minConfidence: Number.isFinite(rawMinConfidence) ? rawMinConfidence as number : undefined,
     };
   } catch (err) {
     vscode.window.showWarningMessage(`Copilot Review Agent: Failed to parse .copilot-review-agent.yml: ${err}`);
@@ -323,12 +394,27 @@ function parseSimpleYaml(content: string): Record<string, unknown> {
       while (j < lines.length && lines[j].trim() === '') { j++; }
 
       if (j < lines.length && /^\s+-/.test(lines[j])) {
-        const arr: string[] = [];
+        const arr: unknown[] = [];
         i++;
-        while (i < lines.length && (/^\s+-/.test(lines[i]) || lines[i].trim() === '')) {
-          if (/^\s+-/.test(lines[i])) {
-            arr.push(lines[i].trim().slice(1).trim().replace(/^["']|["']$/g, ''));
+        while (i < lines.length && (/^\s/.test(lines[i]) || lines[i].trim() === '')) {
+          const item = lines[i].trim();
+          if (item.startsWith('#') || !item) {
+            i++;
+            continue;
           }
+          if (!item.startsWith('-')) {
+            // Continuation of a mapping item, e.g. the "priority:" line of a rule
+            const field = item.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+            const last = arr[arr.length - 1];
+            if (field && typeof last === 'object' && last !== null) {
+              (last as Record<string, unknown>)[field[1]] = parseScalar(field[2]);
+            }
+            i++;
+            continue;
+          }
+          const itemValue = item.slice(1).trim();
+          const field = itemValue.match(/^([A-Za-z0-9_-]+)\s*:\s*(.*)$/);
+          arr.push(field ? { [field[1]]: parseScalar(field[2]) } : itemValue.replace(/^["']|["']$/g, ''));
           i++;
         }
         result[key] = arr;
@@ -358,6 +444,21 @@ function parseSimpleYaml(content: string): Record<string, unknown> {
   return result;
 }
 
+/**
+ * Parse an inline value of a list item's field: a boolean, number, flow array
+ * or (optionally quoted) string.
+ */
+function parseScalar(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === 'true') { return true; }
+  if (trimmed === 'false') { return false; }
+  if (trimmed.startsWith('[') && trimmed.endsWith(']')) {
+    return trimmed.slice(1, -1).split(',').map(s => s.trim().replace(/^["']|["']$/g, '')).filter(Boolean);
+  }
+  if (trimmed !== '' && !/^["']/.test(trimmed) && !isNaN(Number(trimmed))) { return Number(trimmed); }
+  return trimmed.replace(/^["']|["']$/g, '');
+}
+
 /** Generates a sample .copilot-review-agent.yml config file */
 export function generateSampleConfig(): string {
   return `# Copilot Review Agent Configuration
@@ -375,7 +476,8 @@ include_uncommitted: true
 # Minimum severity to report: low, medium, high
 severity_threshold: low
 
-# Glob patterns to exclude from review
+# Glob patterns to exclude from review. Files marked linguist-generated,
+# linguist-vendored or copilot-review=skip in .gitattributes are skipped too.
 exclude_paths:
   - vendor/**
   - node_modules/**
@@ -399,5 +501,41 @@ custom_instructions: |
 
 # Maximum findings to return per review
 max_findings: 50
+
+# Ignore whitespace-only changes (e.g. reformatting commits)
+ignore_whitespace: false
+
+# Detect blocks that only moved, and skip findings on code that did not change
+detect_moved_code: false
+
+# Token budget per file for signatures and doc comments of functions the
+# changed lines call (looked up with the language's definition provider); 0 disables
+definition_context_tokens: 2000
+
+# Chunks reviewed at the same time (model requests in flight at once)
+max_parallel_requests: 3
+
+# Re-check each finding with the model after the review, to cut false
+# positives: off, demote (refuted findings go to a "Low confidence" group),
+# or drop (refuted findings are removed)
+verify_findings: off
+
+# Minimum confidence (0-1) the model must report for a finding to be kept;
+# 0 keeps every finding, and findings that report no confidence are kept
+min_confidence: 0
+
+# Review order by path: the first rule whose glob matches a file sets its
+# priority (lower is reviewed first) and, optionally, the categories to focus
+# on for it. Files no rule matches come last. Without priority_rules a
+# Rails-style preset is used (controllers and auth first, tests last).
+# priority_rules:
+#   - pattern: "internal/auth/**"
+#     priority: 0
+#     categories: [security, correctness]
+#   - pattern: "cmd/**"
+#     priority: 1
+#   - pattern: "**/*_test.go"
+#     priority: 5
+#     categories: [testing]
 `;
 }
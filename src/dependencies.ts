@@ -0,0 +1,196 @@
+import * as path from 'path';
+import { DiffFile } from './types';
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+
+const JS_IMPORT = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"]([^'"]+)['"]/g;
+const PY_IMPORT = /^[ \t]*import[ \t]+([\w.]+(?:[ \t]*,[ \t]*[\w.]+)*)/gm;
+const PY_FROM_IMPORT = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(?:\(([^)]*)\)|([\w \t,]+))/gm;
+const RB_REQUIRE = /^\s*(require|require_relative)\s*\(?\s*['"]([^'"]+)['"]/gm;
+
+/** Test naming conventions: `foo.test.ts`, `foo.spec.js`, `test_foo.py`, `foo_test.py`, `foo_spec.rb`. */
+const TEST_NAME = /^(?:test_(.+)|(.+?)(?:[._-](?:test|spec)s?))$/;
+
+/** Text to scan for imports: the full file when known, else the lines of its hunks. */
+function sourceText(file: DiffFile): string {
+  return file.fullContent
+    ?? file.hunks.flatMap(h => h.content.split('\n').filter(l => !l.startsWith('-')).map(l => l.slice(1))).join('\n');
+}
+
+function posix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+/** Changed path a JS/TS relative specifier points at, trying the usual extensions and index files. */
+function resolveJsImport(from: string, specifier: string, known: Set<string>): string | undefined {
+  if (!specifier.startsWith('.')) { return undefined; }
+  const base = path.posix.join(path.posix.dirname(from), specifier);
+  // ESM TypeScript imports name the emitted `.js` file
+  const stem = base.replace(/\.[cm]?js$/, '');
+  const candidates = [
+    base,
+    ...JS_EXTENSIONS.map(ext => stem + ext),
+    ...JS_EXTENSIONS.map(ext => `${base}/index${ext}`),
+  ];
+  return candidates.find(c => known.has(c));
+}
+
+/** Changed path that ends with `suffix` on a path-segment boundary, e.g. a module under `src/` or `lib/`. */
+function findBySuffix(suffix: string, known: Set<string>): string | undefined {
+  for (const candidate of known) {
+    if (candidate === suffix || candidate.endsWith('/' + suffix)) { return candidate; }
+  }
+  return undefined;
+}
+
+/** Changed paths a Python module name may refer to (`a.b` → `a/b.py` or `a/b/__init__.py`). */
+function resolvePythonModule(from: string, module: string, known: Set<string>): string | undefined {
+  const dots = module.match(/^\.*/)![0].length;
+  const rest = module.slice(dots).split('.').filter(Boolean).join('/');
+  if (dots > 0) {
+    let dir = path.posix.dirname(from);
+    for (let i = 1; i < dots; i++) { dir = path.posix.dirname(dir); }
+    const base = rest ? path.posix.join(dir, rest) : dir;
+    return [`${base}.py`, `${base}/__init__.py`].find(c => known.has(c));
+  }
+  if (!rest) { return undefined; }
+  return findBySuffix(`${rest}.py`, known) ?? findBySuffix(`${rest}/__init__.py`, known);
+}
+
+/**
+ * Changed paths that the file imports. Only imports between files of the diff
+ * matter, so specifiers are resolved against the set of changed paths rather
+ * than the file system. Supported: TS/JS `import` / `export … from` /
+ * `require()` / `import()` with relative specifiers, Python `import` /
+ * `from … import`, and Ruby `require` / `require_relative`.
+ */
+export function findImports(file: DiffFile, known: Set<string>): string[] {
+  const from = posix(file.path);
+  const text = sourceText(file);
+  const found = new Set<string>();
+  const add = (resolved: string | undefined) => {
+    if (resolved && resolved !== from) { found.add(resolved); }
+  };
+
+  const ext = path.posix.extname(from).toLowerCase();
+  if (JS_EXTENSIONS.includes(ext) || ext === '.vue' || ext === '.svelte') {
+    for (const match of text.matchAll(JS_IMPORT)) {
+      add(resolveJsImport(from, match[1], known));
+    }
+  } else if (ext === '.py') {
+    for (const match of text.matchAll(PY_IMPORT)) {
+      for (const module of match[1].split(',')) {
+        add(resolvePythonModule(from, module.trim(), known));
+      }
+    }
+    for (const match of text.matchAll(PY_FROM_IMPORT)) {
+      const module = match[1];
+      add(resolvePythonModule(from, module, known));
+      // `from pkg import mod` may name a submodule rather than an attribute
+      const names = match[2] ?? match[3];
+      for (const name of names.split(',').map(n => n.trim().split(/\s+/)[0]).filter(Boolean)) {
+        const joined = module.endsWith('.') ? module + name : `${module}.${name}`;
+        add(resolvePythonModule(from, joined, known));
+      }
+    }
+  } else if (ext === '.rb' || ext === '.rake') {
+    for (const match of text.matchAll(RB_REQUIRE)) {
+      const target = match[2].endsWith('.rb') ? match[2] : `${match[2]}.rb`;
+      add(match[1] === 'require_relative'
+        ? [path.posix.join(path.posix.dirname(from), target)].find(c => known.has(c))
+        : findBySuffix(target, known));
+    }
+  }
+  return [...found];
+}
+
+/** Stem of the source file a test file covers (`user` for `spec/user_spec.rb`), or undefined for non-tests. */
+export function testSubject(filePath: string): string | undefined {
+  const base = path.posix.basename(posix(filePath));
+  const stem = base.slice(0, base.length - path.posix.extname(base).length);
+  const match = TEST_NAME.exec(stem);
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/** Lowercased basename without its extension, e.g. `user` for `app/models/user.rb`. */
+function moduleStem(filePath: string): string {
+  return path.posix.basename(posix(filePath)).replace(/\.[^.]*$/, '').toLowerCase();
+}
+
+/**
+ * Changed files a module may share imports with before it counts as a hub
+ * (shared types, a barrel `index.ts`) that would otherwise chain unrelated
+ * changes into one group.
+ */
+const MAX_HUB_LINKS = 4;
+
+/**
+ * Group changed files that depend on each other: connected components of the
+ * import graph plus test → subject links. Groups keep the order of their
+ * first member in `files`, and members are listed depth-first from it so
+ * directly related files stay adjacent if a group has to be broken up.
+ *
+ * Imports to or from a hub, a file importing or imported by more than
+ * MAX_HUB_LINKS other changed files, do not connect files; a hub is grouped
+ * with its own tests only.
+ */
+export function groupRelatedFiles(files: DiffFile[]): DiffFile[][] {
+  const known = new Set(files.map(f => posix(f.path)));
+  const byPath = new Map(files.map(f => [posix(f.path), f]));
+  const edges = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => {
+    if (a === b) { return; }
+    if (!edges.has(a)) { edges.set(a, new Set()); }
+    if (!edges.has(b)) { edges.set(b, new Set()); }
+    edges.get(a)!.add(b);
+    edges.get(b)!.add(a);
+  };
+
+  const importsOf = new Map(files.map(f => [posix(f.path), findImports(f, known)]));
+  const importLinks = new Map<string, Set<string>>();
+  for (const [from, imports] of importsOf) {
+    for (const imported of imports) {
+      if (!importLinks.has(from)) { importLinks.set(from, new Set()); }
+      if (!importLinks.has(imported)) { importLinks.set(imported, new Set()); }
+      importLinks.get(from)!.add(imported);
+      importLinks.get(imported)!.add(from);
+    }
+  }
+  const isHub = (p: string) => (importLinks.get(p)?.size ?? 0) > MAX_HUB_LINKS;
+
+  for (const file of files) {
+    const from = posix(file.path);
+    const imports = importsOf.get(from)!;
+    for (const imported of imports) {
+      if (!isHub(from) && !isHub(imported)) { link(from, imported); }
+    }
+
+    const subject = testSubject(from)?.toLowerCase();
+    if (subject) {
+      // Prefer a subject the test imports; otherwise any non-test file with the same stem
+      const covered = imports.find(p => moduleStem(p) === subject)
+        ?? [...known].find(p => testSubject(p) === undefined && moduleStem(p) === subject);
+      if (covered) { link(from, covered); }
+    }
+  }
+
+  const visited = new Set<string>();
+  const groups: DiffFile[][] = [];
+  for (const file of files) {
+    const start = posix(file.path);
+    if (visited.has(start)) { continue; }
+    const group: DiffFile[] = [];
+    const stack = [start];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (visited.has(current)) { continue; }
+      visited.add(current);
+      group.push(byPath.get(current)!);
+      // Push in reverse so neighbours are visited in `files` order
+      const neighbours = files.map(f => posix(f.path)).filter(p => edges.get(current)?.has(p) && !visited.has(p));
+      stack.push(...neighbours.reverse());
+    }
+    groups.push(group);
+  }
+  return groups;
+}
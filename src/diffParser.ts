@@ -0,0 +1,162 @@
+import { DiffFile, DiffHunk, SubmoduleChange } from './types';
+import { minimatch } from './minimatch';
+
+/**
+ * Colour given to moved lines when detecting moved code. Every other diff
+ * colour is reset to "normal", so this escape marks exactly the moved lines.
+ */
+const MOVED_COLOR = '\x1b[35m';
+const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Parse a unified diff string into structured DiffFile objects.
+ * Accepts the coloured output of a moved-code diff (see GitDiffEngine.getDiff).
+ */
+export function parseDiff(rawDiff: string, excludePaths: string[]): DiffFile[] {
+  const files: DiffFile[] = [];
+  // Split on "diff --git" boundaries
+  const fileDiffs = rawDiff.split(/^diff --git /m).filter(Boolean);
+
+  for (const coloredDiff of fileDiffs) {
+    // Note which lines carry the moved-code colour, then drop all escapes
+    const coloredLines = coloredDiff.split('\n');
+    const lines = coloredLines.map(l => l.replace(ANSI_ESCAPE, ''));
+    const fileDiff = lines.join('\n');
+    const headerLine = lines[0]; // a/path b/path
+
+    // Extract file path from "a/old b/new"
+    const match = headerLine.match(/a\/(.*?) b\/(.*)/);
+    if (!match) { continue; }
+
+    // Extended header lines (before the first hunk) carry rename/copy info.
+    // Their paths are unambiguous, unlike the "a/… b/…" header which breaks
+    // on paths containing " b/".
+    const firstHunkIdx = lines.findIndex(l => l.startsWith('@@'));
+    const extendedHeader = lines.slice(1, firstHunkIdx === -1 ? lines.length : firstHunkIdx);
+    const headerValue = (prefix: string) =>
+      extendedHeader.find(l => l.startsWith(prefix))?.slice(prefix.length);
+
+    const renameFrom = headerValue('rename from ');
+    const copyFrom = headerValue('copy from ');
+    const filePath = headerValue('rename to ') ?? headerValue('copy to ') ?? match[2];
+    const oldPath = renameFrom ?? copyFrom;
+    const similarityValue = headerValue('similarity index ');
+    const similarity = similarityValue ? parseInt(similarityValue, 10) : undefined;
+
+    // Check exclusions
+    if (excludePaths.some(pattern => minimatch(filePath, pattern))) {
+      continue;
+    }
+
+    const isNew = fileDiff.includes('new file mode');
+    const isDeleted = fileDiff.includes('deleted file mode');
+    const isBinary = fileDiff.includes('Binary files');
+    const renameInfo = {
+      oldPath,
+      similarity,
+      isRenamed: renameFrom !== undefined,
+      isCopied: copyFrom !== undefined,
+    };
+
+    if (isBinary) {
+      files.push({ path: filePath, hunks: [], isNew, isDeleted, isBinary: true, ...renameInfo });
+      continue;
+    }
+
+    // Submodule pointer (mode 160000): record the commit range, not a text hunk
+    if (/^(?:index \S+ |new file mode |deleted file mode )160000$/m.test(fileDiff)) {
+      const submodule: SubmoduleChange = {};
+      for (const line of lines) {
+        const commit = line.match(/^([+-])Subproject commit ([0-9a-f]+)/);
+        if (commit?.[1] === '-') { submodule.oldCommit = commit[2]; }
+        if (commit?.[1] === '+') { submodule.newCommit = commit[2]; }
+      }
+      files.push({ path: filePath, hunks: [], isNew, isDeleted, isBinary: false, ...renameInfo, submodule });
+      continue;
+    }
+
+    // Parse hunks
+    const hunks: DiffHunk[] = [];
+    let currentHunk: DiffHunk | null = null;
+    let lineContent: string[] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i];
+
+      // Hunk header: @@ -old,count +new,count @@ optional context
+      const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)/);
+      if (hunkMatch) {
+        // Save previous hunk
+        if (currentHunk) {
+          currentHunk.content = lineContent.join('\n');
+          hunks.push(currentHunk);
+        }
+
+        const newStart = parseInt(hunkMatch[3], 10);
+        const newLines = parseInt(hunkMatch[4] || '1', 10);
+        const movedLines: number[] = [];
+        const movedRemovedLines: number[] = [];
+
+        currentHunk = {
+          file: filePath,
+          oldStart: parseInt(hunkMatch[1], 10),
+          oldLines: parseInt(hunkMatch[2] || '1', 10),
+          newStart,
+          newLines,
+          header: hunkMatch[5]?.trim() || '',
+          content: '',
+          addedLines: [],
+          removedLines: [],
+          movedLines,
+          movedRemovedLines,
+        };
+        lineContent = [line];
+
+        // Track added/removed line numbers: added lines advance only the
+        // new-file counter, removed lines only the old-file counter.
+        let oldLineNum = currentHunk.oldStart;
+        let newLineNum = newStart;
+        for (let j = i + 1; j < lines.length; j++) {
+          const dl = lines[j];
+          if (dl.startsWith('@@') || dl.startsWith('diff --git')) { break; }
+
+          const moved = coloredLines[j].startsWith(MOVED_COLOR);
+          if (dl.startsWith('+')) {
+            currentHunk.addedLines.push(newLineNum);
+            if (moved) { movedLines.push(newLineNum); }
+            newLineNum++;
+          } else if (dl.startsWith('-')) {
+            currentHunk.removedLines.push(oldLineNum);
+            if (moved) { movedRemovedLines.push(oldLineNum); }
+            oldLineNum++;
+          } else if (dl.startsWith('\\')) {
+            // "\ No newline at end of file" — not a line of either side
+          } else {
+            oldLineNum++;
+            newLineNum++;
+          }
+        }
+        continue;
+      }
+
+      // Skip diff metadata lines (index, ---, +++)
+      if (line.startsWith('index ') || line.startsWith('--- ') || line.startsWith('+++ ') || line.startsWith('old mode') || line.startsWith('new mode') || line.startsWith('new file') || line.startsWith('deleted file')) {
+        continue;
+      }
+
+      if (currentHunk) {
+        lineContent.push(line);
+      }
+    }
+
+    // Save last hunk
+    if (currentHunk) {
+      currentHunk.content = lineContent.join('\n');
+      hunks.push(currentHunk);
+    }
+
+    files.push({ path: filePath, hunks, isNew, isDeleted, isBinary: false, ...renameInfo });
+  }
+
+  return files;
+}
@@ -1,5 +1,7 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { ReviewFinding, SEVERITY_EMOJI } from './types';
+import { describeTarget } from './git';
 
 /**
  * Export review findings as a Markdown document.
@@ -23,7 +25,7 @@ export async function exportFindings(findings: ReviewFinding[], baseBranch: stri
 function buildMarkdown(findings: ReviewFinding[], baseBranch: string, targetBranch: string): string {
   const lines: string[] = [];
 
-  const target = targetBranch || 'HEAD + working tree';
+  const target = describeTarget(targetBranch);
   lines.push(`# Copilot Review Agent — ${baseBranch}..${target}`);
   lines.push('');
   lines.push(`> Generated ${new Date().toISOString()}`);
@@ -44,12 +46,15 @@ function buildMarkdown(findings: ReviewFinding[], baseBranch: string, targetBran
   lines.push(`| **Total** | **${findings.length}** |`);
   lines.push('');
 
-  // Group by file
+  // Group by file, qualified with the repository name when the review
+  // covered several repositories
+  const multiRepo = new Set(findings.map(f => f.repoRoot)).size > 1;
   const byFile = new Map<string, ReviewFinding[]>();
   for (const f of findings) {
-    const arr = byFile.get(f.file) || [];
+    const key = multiRepo && f.repoRoot ? `${path.basename(f.repoRoot)}/${f.file}` : f.file;
+    const arr = byFile.get(key) || [];
     arr.push(f);
-    byFile.set(f.file, arr);
+    byFile.set(key, arr);
   }
 
   for (const [file, fileFindings] of byFile) {
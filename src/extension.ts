@@ -2,19 +2,21 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 
-import { BranchSelection, ReviewFinding } from './types';
+import { BranchSelection, CopilotReviewAgentConfig, DiffChunk, DiffFile, ReviewFinding, Severity } from './types';
 import { loadConfig, generateSampleConfig, getInstructionsFilePath, INSTRUCTIONS_FILENAME, generateSampleInstructions } from './config';
-import { GitDiffEngine, pickBaseBranch, pickTargetBranch } from './git';
+import { GitDiffEngine, pickBaseBranch, pickTargetBranch, pickCommits, pickRepository, commonBranches, hashDiffFiles, isIndexTarget, refForTarget, describeTarget, resolvePath, repositoryPath, ALL_REPOSITORIES, BranchSource } from './git';
+import { parseDiff } from './diffParser';
 import { resetWarnings } from './minimatch';
-import { chunkDiffFiles } from './chunker';
+import { buildFindingContext, chunkDiffFiles, describePart, describeChunk, rebuildChunks } from './chunker';
+import { addEnclosingSymbols, addReferencedDefinitions } from './symbols';
 import { ReviewEngine } from './reviewer';
-import { CommentManager } from './comments';
+import { CommentManager, findingUri } from './comments';
 import { TaskListProvider, TaskListItem } from './taskList';
 import { FixActions } from './fixActions';
 import { exportFindings } from './export';
 import { SidebarViewProvider, ExtensionMessage } from './sidebarView';
 import { ReviewStore } from './reviewStore';
-import { ReviewSession, ReviewAgentStep, nextSessionId } from './types';
+import { ReviewSession, ReviewAgentStep, FailedChunk, SessionChunk, nextSessionId } from './types';
 
 /** Held so deactivate() can cancel in-flight requests across activations. */
 let activeTokenSource: vscode.CancellationTokenSource | undefined;
@@ -27,6 +29,8 @@ export function activate(context: vscode.ExtensionContext) {
 
   /** Per-activation mutable state */
   let currentSelection: BranchSelection | undefined;
+  /** Repository being reviewed: a workspace folder path or ALL_REPOSITORIES */
+  let currentRepo: string | undefined;
   let currentSessionId: string | undefined;
   let controlPanelHidden = false;
   let reviewInProgress = false; // Mutex to prevent concurrent review executions
@@ -66,8 +70,13 @@ export function activate(context: vscode.ExtensionContext) {
     if (!folders || folders.length === 0) {
       throw new Error('No workspace folder open.');
     }
-    // In multi-root workspaces, prefer the folder containing the active editor
+    // In multi-root workspaces, prefer the picked repository, then the folder
+    // containing the active editor
     if (folders.length > 1) {
+      const picked = folders.find(f => f.uri.fsPath === currentRepo);
+      if (picked) {
+        return picked;
+      }
       const activeEditor = vscode.window.activeTextEditor;
       if (activeEditor) {
         const wsFolder = vscode.workspace.getWorkspaceFolder(activeEditor.document.uri);
@@ -79,20 +88,60 @@ export function activate(context: vscode.ExtensionContext) {
     return folders[0];
   }
 
-  // Fix action handler (stateless – workspace folder is resolved per call)
-  const fixActions = new FixActions(reviewEngine);
+  // Helper: folders to review for a repository choice (a folder path or ALL_REPOSITORIES)
+  function resolveRepositories(repo: string | undefined): vscode.WorkspaceFolder[] {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (repo === ALL_REPOSITORIES) {
+      if (folders.length === 0) {
+        throw new Error('No workspace folder open.');
+      }
+      return [...folders];
+    }
+    if (repo) {
+      const folder = folders.find(f => f.uri.fsPath === repo);
+      if (!folder) {
+        throw new Error(`Repository "${repo}" is not open in this workspace.`);
+      }
+      return [folder];
+    }
+    return [getWorkspaceFolder()];
+  }
 
-  function normalizeFsPathToWorkspace(fsPath: string, wsFolder: vscode.WorkspaceFolder): string {
-    const relativePath = path.relative(wsFolder.uri.fsPath, fsPath).split(path.sep).join('/');
-    // Guard against paths outside the workspace (starting with '..')
-    if (relativePath.startsWith('..')) {
-      return ''; // Return empty string to avoid incorrect matches
+  // Helper: branch listing for a set of repositories (branches common to all of them)
+  function branchSource(folders: vscode.WorkspaceFolder[]): BranchSource {
+    const engines = folders.map(f => new GitDiffEngine(f));
+    return engines.length === 1 ? engines[0] : commonBranches(engines);
+  }
+
+  // Helper: the repository a finding's file path is relative to
+  function folderForFinding(finding: ReviewFinding): vscode.WorkspaceFolder {
+    const folder = finding.repoRoot
+      ? vscode.workspace.workspaceFolders?.find(f => f.uri.fsPath === finding.repoRoot)
+      : undefined;
+    return folder ?? getWorkspaceFolder();
+  }
+
+  // Helper: one review target per repository of the current choice, sharing a
+  // branch selection. Merge bases are recomputed when several repositories
+  // are reviewed, since the selection only holds the first one's.
+  async function buildTargets(selection: BranchSelection): Promise<ReviewTarget[]> {
+    const folders = resolveRepositories(currentRepo);
+    const targets: ReviewTarget[] = [];
+    for (const folder of folders) {
+      const engine = new GitDiffEngine(folder);
+      const mergeBase = folders.length === 1 && selection.mergeBase
+        ? selection.mergeBase
+        : await engine.getMergeBase(selection.baseBranch, refForTarget(selection.targetBranch));
+      targets.push({ folder, engine, config: await loadConfig(folder), selection: { ...selection, mergeBase } });
     }
-    return relativePath;
+    return targets;
   }
 
+  // Fix action handler (stateless – workspace folder is resolved per call)
+  const fixActions = new FixActions(reviewEngine);
+
   // Helper: resolve a finding ID from various command sources
-  function resolveFindingId(arg: unknown): string | undefined {
+  async function resolveFindingId(arg: unknown): Promise<string | undefined> {
     if (typeof arg === 'string') { return arg; }
     // From tree item
     if (arg instanceof TaskListItem && arg.findingId) {
@@ -106,13 +155,17 @@ export function activate(context: vscode.ExtensionContext) {
 
       // Fallback: match by file path and range if the thread mapping is missing.
       try {
-        const wsFolder = getWorkspaceFolder();
-        const file = normalizeFsPathToWorkspace(thread.uri.fsPath, wsFolder);
+        const wsFolder = vscode.workspace.getWorkspaceFolder(thread.uri) ?? getWorkspaceFolder();
+        // Relative to the worktree root, like finding.file
+        const file = await repositoryPath(wsFolder.uri.fsPath, thread.uri.fsPath);
+        // Guard against paths outside the repository (starting with '..')
+        if (file.startsWith('..')) { return undefined; }
         const startLine = thread.range?.start.line;
         const endLine = thread.range?.end.line;
         if (startLine == null || endLine == null) { return undefined; }
 
-        const findings = taskListProvider.getFindings();
+        const findings = taskListProvider.getFindings()
+          .filter(f => !f.repoRoot || f.repoRoot === wsFolder.uri.fsPath);
         const exact = findings.find(f =>
           f.file === file && f.startLine - 1 === startLine && f.endLine - 1 === endLine
         );
@@ -132,15 +185,21 @@ export function activate(context: vscode.ExtensionContext) {
   // ============================================================
   // COMMAND: Review Branch
   // ============================================================
-  const reviewBranchCmd = vscode.commands.registerCommand('copilotReviewAgent.reviewBranch', async (args?: { baseBranch?: string; targetBranch?: string }) => {
+  const reviewBranchCmd = vscode.commands.registerCommand('copilotReviewAgent.reviewBranch', async (args?: { repo?: string; baseBranch?: string; targetBranch?: string; commits?: string[] | string }) => {
     if (reviewInProgress) {
       vscode.window.showWarningMessage('Copilot Review Agent: A review is already in progress.');
       return;
     }
     try {
-      const wsFolder = getWorkspaceFolder();
-      const config = await loadConfig();
-      const engine = new GitDiffEngine(wsFolder);
+      let repo = args?.repo;
+      const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+      if (repo === undefined && !args?.baseBranch && workspaceFolders.length > 1) {
+        repo = await pickRepository(workspaceFolders);
+        if (!repo) { return; }
+      }
+      const folders = resolveRepositories(repo);
+      const multiRepo = folders.length > 1;
+      const configs = await Promise.all(folders.map(f => loadConfig(f)));
 
       let baseBranch: string | undefined;
       let targetBranch: string | undefined;
@@ -152,48 +211,88 @@ export function activate(context: vscode.ExtensionContext) {
         targetBranch = args.targetBranch ?? '';
       } else {
         // Fallback: prompt via QuickPick
-        baseBranch = await pickBaseBranch(engine, config.baseBranch);
+        const branches = branchSource(folders);
+        baseBranch = await pickBaseBranch(branches, configs[0].baseBranch);
         if (!baseBranch) { return; }
 
-        targetBranch = await pickTargetBranch(engine);
+        targetBranch = await pickTargetBranch(branches);
         if (targetBranch === undefined) { return; }
       }
 
-      // Validate base branch exists
-      if (!engine.refExists(baseBranch)) {
-        vscode.window.showErrorMessage(`Copilot Review Agent: Base branch "${baseBranch}" not found.`);
+      if (args?.commits !== undefined && multiRepo) {
+        vscode.window.showErrorMessage('Copilot Review Agent: Commit selection is only available when reviewing a single repository.');
         sidebarProvider.setReviewState('error');
         return;
       }
 
-      // Validate target branch exists (only when a non-empty string is provided)
-      if (targetBranch && !engine.refExists(targetBranch)) {
-        vscode.window.showErrorMessage(`Copilot Review Agent: Target branch "${targetBranch}" not found.`);
-        sidebarProvider.setReviewState('error');
-        return;
-      }
+      const targets: ReviewTarget[] = [];
+      for (let i = 0; i < folders.length; i++) {
+        const folder = folders[i];
+        const config = configs[i];
+        const engine = new GitDiffEngine(folder);
+        const where = multiRepo ? ` in ${folder.name}` : '';
+
+        // Validate base branch exists
+        if (!await engine.refExists(baseBranch)) {
+          vscode.window.showErrorMessage(`Copilot Review Agent: Base branch "${baseBranch}" not found${where}.`);
+          sidebarProvider.setReviewState('error');
+          return;
+        }
 
-      // Compute merge base
-      const targetRef = targetBranch || 'HEAD';
-      let mergeBase: string;
-      try {
-        mergeBase = engine.getMergeBase(baseBranch, targetRef);
-      } catch {
-        vscode.window.showErrorMessage(
-          `Copilot Review Agent: Cannot compute merge base between "${baseBranch}" and "${targetRef}". Are the branches related?`
-        );
-        sidebarProvider.setReviewState('error');
-        return;
+        // Validate target branch exists (only when a non-empty string is provided)
+        if (targetBranch && !isIndexTarget(targetBranch) && !await engine.refExists(targetBranch)) {
+          vscode.window.showErrorMessage(`Copilot Review Agent: Target branch "${targetBranch}" not found${where}.`);
+          sidebarProvider.setReviewState('error');
+          return;
+        }
+
+        // Compute merge base
+        const targetRef = refForTarget(targetBranch);
+        let mergeBase: string;
+        try {
+          mergeBase = await engine.getMergeBase(baseBranch, targetRef);
+        } catch {
+          vscode.window.showErrorMessage(
+            `Copilot Review Agent: Cannot compute merge base between "${baseBranch}" and "${targetRef}"${where}. Are the branches related?`
+          );
+          sidebarProvider.setReviewState('error');
+          return;
+        }
+
+        // Commit-range mode: a list of SHAs or an "A..B" range
+        let commits: string[] | undefined;
+        if (args?.commits !== undefined) {
+          // Resolve to full SHAs: blame output is compared against them verbatim
+          const specs = typeof args.commits === 'string' ? [args.commits] : args.commits;
+          commits = [];
+          for (const spec of specs) {
+            commits.push(...await engine.resolveCommits(spec));
+          }
+          if (commits.length === 0) {
+            vscode.window.showErrorMessage('Copilot Review Agent: No commits to review in the selected range.');
+            sidebarProvider.setReviewState('error');
+            return;
+          }
+        }
+
+        targets.push({
+          folder,
+          engine,
+          config,
+          selection: {
+            baseBranch,
+            targetBranch: targetBranch ?? '',
+            includeUncommitted: !targetBranch && !commits ? config.includeUncommitted : false,
+            mergeBase,
+            ...(commits ? { commits } : {}),
+          },
+        });
       }
 
-      currentSelection = {
-        baseBranch,
-        targetBranch: targetBranch ?? '',
-        includeUncommitted: !targetBranch ? config.includeUncommitted : false,
-        mergeBase,
-      };
+      currentRepo = multiRepo ? ALL_REPOSITORIES : folders[0].uri.fsPath;
+      currentSelection = targets[0].selection;
 
-      await runReview(wsFolder, engine, config, currentSelection, commentManager, taskListProvider, reviewEngine, sidebarProvider);
+      await runReview(targets, commentManager, taskListProvider, reviewEngine, sidebarProvider);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
       vscode.window.showErrorMessage(`Copilot Review Agent: ${msg}`);
@@ -201,6 +300,37 @@ export function activate(context: vscode.ExtensionContext) {
     }
   });
 
+  // ============================================================
+  // COMMAND: Review Commits (commit-range mode)
+  // ============================================================
+  const reviewCommitsCmd = vscode.commands.registerCommand('copilotReviewAgent.reviewCommits', async () => {
+    if (reviewInProgress) {
+      vscode.window.showWarningMessage('Copilot Review Agent: A review is already in progress.');
+      return;
+    }
+    try {
+      const wsFolder = getWorkspaceFolder();
+      const config = await loadConfig(wsFolder);
+      const engine = new GitDiffEngine(wsFolder);
+
+      const baseBranch = await pickBaseBranch(engine, config.baseBranch);
+      if (!baseBranch) { return; }
+
+      const targetBranch = await pickTargetBranch(engine);
+      if (targetBranch === undefined) { return; }
+
+      const targetRef = refForTarget(targetBranch);
+      const mergeBase = await engine.getMergeBase(baseBranch, targetRef);
+      const commits = await pickCommits(engine, mergeBase, targetRef);
+      if (!commits) { return; }
+
+      await vscode.commands.executeCommand('copilotReviewAgent.reviewBranch', { repo: wsFolder.uri.fsPath, baseBranch, targetBranch, commits });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Copilot Review Agent: ${msg}`);
+    }
+  });
+
   // ============================================================
   // COMMAND: Review Current File
   // ============================================================
@@ -216,33 +346,35 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const wsFolder = getWorkspaceFolder();
-      const config = await loadConfig();
+      const wsFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri) ?? getWorkspaceFolder();
+      const config = await loadConfig(wsFolder);
       const engine = new GitDiffEngine(wsFolder);
-      const relativePath = vscode.workspace.asRelativePath(editor.document.uri, false);
+      const relativePath = await repositoryPath(wsFolder.uri.fsPath, editor.document.uri.fsPath);
 
-      // Use current selection or defaults
-      let selection = currentSelection;
+      // Use current selection (when it was made in this repository), its branches, or defaults
+      let selection = currentSelection && currentRepo === wsFolder.uri.fsPath ? currentSelection : undefined;
       if (!selection) {
-        const targetRef = config.targetBranch || 'HEAD';
+        const baseBranch = currentSelection?.baseBranch ?? config.baseBranch;
+        const targetBranch = currentSelection ? currentSelection.targetBranch : config.targetBranch;
+        const targetRef = refForTarget(targetBranch);
         let mergeBase: string;
         try {
-          mergeBase = engine.getMergeBase(config.baseBranch, targetRef);
+          mergeBase = await engine.getMergeBase(baseBranch, targetRef);
         } catch {
           vscode.window.showErrorMessage(
-            `Copilot Review Agent: Cannot compute merge base between "${config.baseBranch}" and "${targetRef}". Are the branches related?`
+            `Copilot Review Agent: Cannot compute merge base between "${baseBranch}" and "${targetRef}". Are the branches related?`
           );
           return;
         }
         selection = {
-          baseBranch: config.baseBranch,
-          targetBranch: config.targetBranch,
-          includeUncommitted: config.includeUncommitted,
+          baseBranch,
+          targetBranch,
+          includeUncommitted: currentSelection?.includeUncommitted ?? config.includeUncommitted,
           mergeBase,
         };
       }
 
-      await runReview(wsFolder, engine, config, selection, commentManager, taskListProvider, reviewEngine, sidebarProvider, [relativePath]);
+      await runReview([{ folder: wsFolder, engine, config, selection }], commentManager, taskListProvider, reviewEngine, sidebarProvider, { filePaths: [relativePath] });
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
       vscode.window.showErrorMessage(`Copilot Review Agent: ${msg}`);
@@ -262,22 +394,91 @@ export function activate(context: vscode.ExtensionContext) {
       return;
     }
     try {
-      const wsFolder = getWorkspaceFolder();
-      const config = await loadConfig();
-      const engine = new GitDiffEngine(wsFolder);
+      const targets = await buildTargets(currentSelection);
       commentManager.clearAll();
       taskListProvider.clearAll();
-      await runReview(wsFolder, engine, config, currentSelection, commentManager, taskListProvider, reviewEngine, sidebarProvider);
+      await runReview(targets, commentManager, taskListProvider, reviewEngine, sidebarProvider);
     } catch (err: unknown) {
       const msg = err instanceof Error ? err.message : String(err);
       vscode.window.showErrorMessage(`Copilot Review Agent: ${msg}`);
     }
   });
 
+  // ============================================================
+  // COMMAND: Review Changes Since Last Review (incremental)
+  // ============================================================
+  const reviewIncrementalCmd = vscode.commands.registerCommand('copilotReviewAgent.reviewIncremental', async () => {
+    if (reviewInProgress) {
+      vscode.window.showWarningMessage('Copilot Review Agent: A review is already in progress.');
+      return;
+    }
+    const previous = currentSessionId ? reviewStore.get(currentSessionId) : undefined;
+    if (!currentSelection || !previous?.fileHashes) {
+      // Nothing to compare against (no review loaded, or one saved before hashes were recorded)
+      await vscode.commands.executeCommand('copilotReviewAgent.refreshReview');
+      return;
+    }
+    try {
+      const targets = await buildTargets(currentSelection);
+      commentManager.clearAll();
+      taskListProvider.clearAll();
+      await runReview(targets, commentManager, taskListProvider, reviewEngine, sidebarProvider, { since: previous });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Copilot Review Agent: ${msg}`);
+    }
+  });
+
+  // ============================================================
+  // COMMANDS: Retry Failed Chunks / Continue Review
+  // ============================================================
+  // Re-run a saved subset of the open review's chunks — the failed ones, or
+  // the ones a cancellation left — against the merge base it was reviewed at.
+  async function resumeReview(mode: 'retry' | 'continue'): Promise<void> {
+    if (reviewInProgress) {
+      vscode.window.showWarningMessage('Copilot Review Agent: A review is already in progress.');
+      return;
+    }
+    const previous = currentSessionId ? reviewStore.get(currentSessionId) : undefined;
+    const chunks = (mode === 'retry' ? previous?.failedChunks : previous?.remainingChunks) ?? [];
+    if (!currentSelection || !previous || chunks.length === 0) {
+      vscode.window.showInformationMessage(mode === 'retry'
+        ? 'Copilot Review Agent: This review has no failed chunks to retry.'
+        : 'Copilot Review Agent: This review has no remaining chunks to continue with.');
+      return;
+    }
+    try {
+      // Keep every target so per-file keys match the session's; chunks are only rebuilt for the listed ones
+      const targets = await buildTargets(currentSelection);
+      if (!chunks.some(c => targets.some(t => t.folder.uri.fsPath === c.repoRoot))) {
+        vscode.window.showErrorMessage('Copilot Review Agent: The repositories of those chunks are no longer open.');
+        return;
+      }
+      for (const target of targets) {
+        const mergeBase = previous.mergeBases?.[target.folder.uri.fsPath];
+        if (mergeBase) { target.selection = { ...target.selection, mergeBase }; }
+      }
+      const filePaths = [...new Set(chunks.flatMap(c => c.files.map(f => f.path)))];
+      commentManager.clearAll();
+      taskListProvider.clearAll();
+      await runReview(targets, commentManager, taskListProvider, reviewEngine, sidebarProvider, {
+        filePaths,
+        resume: { session: previous, chunks, mode },
+      });
+    } catch (err: unknown) {
+      const msg = err instanceof Error ? err.message : String(err);
+      vscode.window.showErrorMessage(`Copilot Review Agent: ${msg}`);
+    }
+  }
+
+  const retryFailedChunksCmd = vscode.commands.registerCommand('copilotReviewAgent.retryFailedChunks', () => resumeReview('retry'));
+  const continueReviewCmd = vscode.commands.registerCommand('copilotReviewAgent.continueReview', () => resumeReview('continue'));
+
   // ============================================================
   // COMMAND: Clear Review
   // ============================================================
   const clearCmd = vscode.commands.registerCommand('copilotReviewAgent.clearReview', async () => {
+    setResumableChunks(0, 0);
     commentManager.clearAll();
     taskListProvider.clearAll();
     currentSelection = undefined;
@@ -314,6 +515,7 @@ export function activate(context: vscode.ExtensionContext) {
       [
         { label: '$(list-ordered) Alphabetical', description: 'Sort files A → Z' + (currentGroup === 'file' && currentSort === 'alphabetical' ? ' (current)' : ''), mode: 'alphabetical' as const, group: 'file' as const },
         { label: '$(graph) Most Findings', description: 'Sort by number of findings (descending)' + (currentGroup === 'file' && currentSort === 'findingsCount' ? ' (current)' : ''), mode: 'findingsCount' as const, group: 'file' as const },
+        { label: '$(flame) Severity × Confidence', description: 'Most severe, most certain findings first' + (currentGroup === 'file' && currentSort === 'severityConfidence' ? ' (current)' : ''), mode: 'severityConfidence' as const, group: 'file' as const },
         { label: '$(warning) Group by Severity', description: 'Group findings by Blocker, High, Medium, etc.' + (currentGroup === 'severity' ? ' (current)' : ''), mode: currentSort, group: 'severity' as const },
       ],
       { placeHolder: `Sort / group findings… (current: ${currentGroup === 'severity' ? 'severity' : currentSort})` },
@@ -329,12 +531,12 @@ export function activate(context: vscode.ExtensionContext) {
   // ============================================================
   const selectBaseCmd = vscode.commands.registerCommand('copilotReviewAgent.selectBaseBranch', async () => {
     try {
-      const wsFolder = getWorkspaceFolder();
-      const config = await loadConfig();
-      const engine = new GitDiffEngine(wsFolder);
-      const baseBranch = await pickBaseBranch(engine, config.baseBranch);
+      const folders = resolveRepositories(currentRepo);
+      const config = await loadConfig(folders[0]);
+      const engine = new GitDiffEngine(folders[0]);
+      const baseBranch = await pickBaseBranch(branchSource(folders), config.baseBranch);
       if (baseBranch && currentSelection) {
-        const newMergeBase = engine.getMergeBase(baseBranch, currentSelection.targetBranch || 'HEAD');
+        const newMergeBase = await engine.getMergeBase(baseBranch, refForTarget(currentSelection.targetBranch));
         currentSelection.baseBranch = baseBranch;
         currentSelection.mergeBase = newMergeBase;
         updateStatusBar('idle');
@@ -350,11 +552,11 @@ export function activate(context: vscode.ExtensionContext) {
   // ============================================================
   const selectTargetCmd = vscode.commands.registerCommand('copilotReviewAgent.selectTargetBranch', async () => {
     try {
-      const wsFolder = getWorkspaceFolder();
-      const engine = new GitDiffEngine(wsFolder);
-      const targetBranch = await pickTargetBranch(engine);
+      const folders = resolveRepositories(currentRepo);
+      const engine = new GitDiffEngine(folders[0]);
+      const targetBranch = await pickTargetBranch(branchSource(folders));
       if (targetBranch !== undefined && currentSelection) {
-        const newMergeBase = engine.getMergeBase(currentSelection.baseBranch, targetBranch || 'HEAD');
+        const newMergeBase = await engine.getMergeBase(currentSelection.baseBranch, refForTarget(targetBranch));
         currentSelection.targetBranch = targetBranch;
         currentSelection.includeUncommitted = !targetBranch;
         currentSelection.mergeBase = newMergeBase;
@@ -402,8 +604,8 @@ export function activate(context: vscode.ExtensionContext) {
   // ============================================================
   // COMMENT THREAD ACTIONS: Skip, Fix Inline, Fix in Chat, Fix in Edits
   // ============================================================
-  const skipFindingCmd = vscode.commands.registerCommand('copilotReviewAgent.skipFinding', (thread: vscode.CommentThread) => {
-    const findingId = resolveFindingId(thread);
+  const skipFindingCmd = vscode.commands.registerCommand('copilotReviewAgent.skipFinding', async (thread: vscode.CommentThread) => {
+    const findingId = await resolveFindingId(thread);
     if (findingId) {
       commentManager.resolveFinding(findingId);
       taskListProvider.updateFinding(findingId, { status: 'skipped' });
@@ -413,12 +615,12 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   const fixInlineCmd = vscode.commands.registerCommand('copilotReviewAgent.fixInline', async (thread: vscode.CommentThread) => {
-    const findingId = resolveFindingId(thread);
+    const findingId = await resolveFindingId(thread);
     if (!findingId) { return; }
     const finding = taskListProvider.getFinding(findingId);
     if (!finding) { return; }
     try {
-      const initiated = await fixActions.fixInline(finding, getWorkspaceFolder());
+      const initiated = await fixActions.fixInline(finding, folderForFinding(finding));
       if (initiated) {
         commentManager.resolveFinding(findingId);
         taskListProvider.updateFinding(findingId, { status: 'fixed' });
@@ -432,12 +634,12 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   const fixInChatCmd = vscode.commands.registerCommand('copilotReviewAgent.fixInChat', async (thread: vscode.CommentThread) => {
-    const findingId = resolveFindingId(thread);
+    const findingId = await resolveFindingId(thread);
     if (!findingId) { return; }
     const finding = taskListProvider.getFinding(findingId);
     if (!finding) { return; }
     try {
-      const initiated = await fixActions.fixInChat(finding, getWorkspaceFolder());
+      const initiated = await fixActions.fixInChat(finding, folderForFinding(finding));
       if (initiated) {
         commentManager.resolveFinding(findingId);
         taskListProvider.updateFinding(findingId, { status: 'fixed' });
@@ -451,12 +653,12 @@ export function activate(context: vscode.ExtensionContext) {
   });
 
   const fixInEditsCmd = vscode.commands.registerCommand('copilotReviewAgent.fixInEdits', async (thread: vscode.CommentThread) => {
-    const findingId = resolveFindingId(thread);
+    const findingId = await resolveFindingId(thread);
     if (!findingId) { return; }
     const finding = taskListProvider.getFinding(findingId);
     if (!finding) { return; }
     try {
-      const initiated = await fixActions.fixInEdits(finding, getWorkspaceFolder());
+      const initiated = await fixActions.fixInEdits(finding, folderForFinding(finding));
       if (initiated) {
         commentManager.resolveFinding(findingId);
         taskListProvider.updateFinding(findingId, { status: 'fixed' });
@@ -473,17 +675,28 @@ export function activate(context: vscode.ExtensionContext) {
   // TREE VIEW ACTIONS: Go To, Skip, Fix
   // ============================================================
   const goToFindingCmd = vscode.commands.registerCommand('copilotReviewAgent.goToFinding', async (arg: unknown) => {
-    const findingId = resolveFindingId(arg);
+    const findingId = await resolveFindingId(arg);
     if (!findingId) { return; }
 
     const finding = taskListProvider.getFinding(findingId);
     if (!finding) { return; }
 
     try {
-      const wsFolder = getWorkspaceFolder();
-      const uri = vscode.Uri.joinPath(wsFolder.uri, finding.file);
-      const doc = await vscode.workspace.openTextDocument(uri);
-      const editor = await vscode.window.showTextDocument(doc);
+      const wsFolder = folderForFinding(finding);
+      const uri = vscode.Uri.file(await resolvePath(wsFolder.uri.fsPath, finding.file));
+      let editor: vscode.TextEditor | undefined;
+      if (finding.side === 'old' && finding.baseRef) {
+        // Removed code: open a diff so the finding shows on the base side
+        const baseUri = await findingUri(finding, wsFolder);
+        const target = describeTarget(currentSelection?.targetBranch ?? '', currentSelection?.commits?.length);
+        const title = `${path.basename(finding.file)} (${finding.baseRef.slice(0, 7)} ↔ ${target})`;
+        await vscode.commands.executeCommand('vscode.diff', baseUri, uri, title);
+        editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === baseUri.toString());
+        if (!editor) { return; }
+      } else {
+        const doc = await vscode.workspace.openTextDocument(uri);
+        editor = await vscode.window.showTextDocument(doc);
+      }
 
       const startLine = Math.max(0, finding.startLine - 1);
       const range = new vscode.Range(
@@ -512,7 +725,7 @@ export function activate(context: vscode.ExtensionContext) {
     const finding = taskListProvider.getFinding(item.findingId);
     if (!finding) { return; }
     try {
-      const initiated = await fixActions.fixInline(finding, getWorkspaceFolder());
+      const initiated = await fixActions.fixInline(finding, folderForFinding(finding));
       if (initiated) {
         commentManager.resolveFinding(item.findingId);
         taskListProvider.updateFinding(item.findingId, { status: 'fixed' });
@@ -528,8 +741,9 @@ export function activate(context: vscode.ExtensionContext) {
   const fixAllInFileCmd = vscode.commands.registerCommand('copilotReviewAgent.fixAllInFile', async (item: TaskListItem) => {
     if (!item.filePath) { return; }
     try {
-      const findings = taskListProvider.getFileFindings(item.filePath, 'open');
-      const success = await fixActions.fixAllInFile(findings, item.filePath, getWorkspaceFolder());
+      const findings = taskListProvider.getFileFindings(item.filePath, 'open', item.repoRoot);
+      const folder = findings.length > 0 ? folderForFinding(findings[0]) : getWorkspaceFolder();
+      const success = await fixActions.fixAllInFile(findings, item.filePath, folder);
 
       // Only mark findings as fixed if the operation succeeded
       if (success) {
@@ -556,8 +770,17 @@ export function activate(context: vscode.ExtensionContext) {
     sidebarProvider.setHistory(sessions);
   }
 
+  // Helper: offer "Retry failed chunks" and "Continue review" (sidebar and
+  // findings title bar) while the shown review has chunks for them
+  function setResumableChunks(failed: number, remaining: number): void {
+    vscode.commands.executeCommand('setContext', 'copilotReviewAgent.hasFailedChunks', failed > 0);
+    vscode.commands.executeCommand('setContext', 'copilotReviewAgent.hasRemainingChunks', remaining > 0);
+    sidebarProvider.setResumableChunks(failed, remaining);
+  }
+
   // HELPER: navigate back to history list
   async function backToHistory(): Promise<void> {
+    setResumableChunks(0, 0);
     commentManager.clearAll();
     taskListProvider.clearAll();
     currentSessionId = undefined;
@@ -577,6 +800,24 @@ export function activate(context: vscode.ExtensionContext) {
     }
   }
 
+  // Helper: whether a sidebar repository choice names an open folder (or all of them)
+  function isKnownRepository(repo: string): boolean {
+    return repo === ALL_REPOSITORIES
+      || (vscode.workspace.workspaceFolders ?? []).some(f => f.uri.fsPath === repo);
+  }
+
+  // Helper: send the branches of the current repository choice to the sidebar
+  async function sendBranches(): Promise<void> {
+    const folders = resolveRepositories(currentRepo);
+    const branches = branchSource(folders);
+    const config = await loadConfig(folders[0]);
+    const locals = await branches.getLocalBranches();
+    const remotes = await branches.getRemoteBranches();
+    const current = await branches.getCurrentBranch();
+    sidebarProvider.setBranches(locals, remotes, current);
+    sidebarProvider.setSelectedBranches(config.baseBranch, config.targetBranch);
+  }
+
   // ============================================================
   function setupSidebarMessageHandler(): vscode.Disposable[] {
     let messageListenerDisposable: vscode.Disposable | undefined;
@@ -594,14 +835,23 @@ export function activate(context: vscode.ExtensionContext) {
               }
               case 'refreshBranches': {
                 try {
-                  const wsFolder = getWorkspaceFolder();
-                  const engine = new GitDiffEngine(wsFolder);
-                  const config = await loadConfig();
-                  const locals = engine.getLocalBranches();
-                  const remotes = engine.getRemoteBranches();
-                  const current = engine.getCurrentBranch();
-                  sidebarProvider.setBranches(locals, remotes, current);
-                  sidebarProvider.setSelectedBranches(config.baseBranch, config.targetBranch);
+                  await sendBranches();
+                } catch (err: unknown) {
+                  const msg2 = err instanceof Error ? err.message : String(err);
+                  vscode.window.showErrorMessage(`Copilot Review Agent: ${msg2}`);
+                }
+                break;
+              }
+              case 'selectRepository': {
+                const repo = msg.payload;
+                if (typeof repo !== 'string' || !isKnownRepository(repo)) {
+                  break;
+                }
+                currentRepo = repo;
+                try {
+                  await sendBranches();
+                  const instrPath = await getInstructionsFilePath(getWorkspaceFolder());
+                  sidebarProvider.setInstructionsStatus(!!instrPath);
                 } catch (err: unknown) {
                   const msg2 = err instanceof Error ? err.message : String(err);
                   vscode.window.showErrorMessage(`Copilot Review Agent: ${msg2}`);
@@ -614,19 +864,55 @@ export function activate(context: vscode.ExtensionContext) {
               case 'setTargetBranch': {
                 break;
               }
+              case 'loadCommits': {
+                const payload = msg.payload as { baseBranch?: unknown; targetBranch?: unknown };
+                if (typeof payload?.baseBranch !== 'string' || typeof payload?.targetBranch !== 'string') {
+                  break;
+                }
+                try {
+                  const engine = new GitDiffEngine(getWorkspaceFolder());
+                  const targetRef = refForTarget(payload.targetBranch);
+                  if (!await engine.refExists(payload.baseBranch) || !await engine.refExists(targetRef)) {
+                    sidebarProvider.setCommits([]);
+                    break;
+                  }
+                  const mergeBase = await engine.getMergeBase(payload.baseBranch, targetRef);
+                  sidebarProvider.setCommits(await engine.getCommits(mergeBase, targetRef));
+                } catch (err: unknown) {
+                  const msg2 = err instanceof Error ? err.message : String(err);
+                  vscode.window.showErrorMessage(`Copilot Review Agent: ${msg2}`);
+                }
+                break;
+              }
               case 'runReview': {
-                const payload = msg.payload as { baseBranch?: unknown; targetBranch?: unknown; modelId?: unknown };
+                const payload = msg.payload as { repo?: unknown; baseBranch?: unknown; targetBranch?: unknown; modelId?: unknown; commits?: unknown };
                 if (typeof payload?.baseBranch !== 'string' || typeof payload?.targetBranch !== 'string') {
                   break;
                 }
+                if (payload.repo !== undefined && (typeof payload.repo !== 'string' || !isKnownRepository(payload.repo))) {
+                  vscode.window.showErrorMessage('Invalid repository.');
+                  break;
+                }
                 // Validate branch names to prevent command injection.
-                // targetBranch may be empty (meaning current HEAD/working tree), which is valid.
+                // targetBranch may be empty (meaning current HEAD/working tree) or
+                // name the staged/unstaged changes, which is valid.
                 const safeBranchPattern = /^[a-zA-Z0-9_./@-]+$/;
-                const targetOk = payload.targetBranch === '' || safeBranchPattern.test(payload.targetBranch);
+                const targetOk = payload.targetBranch === '' || isIndexTarget(payload.targetBranch)
+                  || safeBranchPattern.test(payload.targetBranch);
                 if (!safeBranchPattern.test(payload.baseBranch) || !targetOk) {
                   vscode.window.showErrorMessage('Invalid branch name format.');
                   break;
                 }
+                let commits: string[] | undefined;
+                if (payload.commits !== undefined) {
+                  const shaPattern = /^[0-9a-f]{7,40}$/;
+                  if (!Array.isArray(payload.commits) || payload.commits.length === 0
+                    || !payload.commits.every(c => typeof c === 'string' && shaPattern.test(c))) {
+                    vscode.window.showErrorMessage('Invalid commit selection.');
+                    break;
+                  }
+                  commits = payload.commits;
+                }
                 if (typeof payload.modelId === 'string' && payload.modelId) {
                   const models = await reviewEngine.listModels();
                   if (models.some(m => m.id === payload.modelId)) {
@@ -634,8 +920,10 @@ export function activate(context: vscode.ExtensionContext) {
                   }
                 }
                 await vscode.commands.executeCommand('copilotReviewAgent.reviewBranch', {
+                  repo: payload.repo,
                   baseBranch: payload.baseBranch,
                   targetBranch: payload.targetBranch,
+                  commits,
                 });
                 break;
               }
@@ -668,6 +956,18 @@ export function activate(context: vscode.ExtensionContext) {
                 await vscode.commands.executeCommand('copilotReviewAgent.clearReview');
                 break;
               }
+              case 'reviewIncremental': {
+                await vscode.commands.executeCommand('copilotReviewAgent.reviewIncremental');
+                break;
+              }
+              case 'retryFailedChunks': {
+                await vscode.commands.executeCommand('copilotReviewAgent.retryFailedChunks');
+                break;
+              }
+              case 'continueReview': {
+                await vscode.commands.executeCommand('copilotReviewAgent.continueReview');
+                break;
+              }
               case 'exportMarkdown': {
                 await vscode.commands.executeCommand('copilotReviewAgent.exportMarkdown');
                 break;
@@ -677,14 +977,15 @@ export function activate(context: vscode.ExtensionContext) {
                 sidebarProvider.showNewReview();
                 vscode.commands.executeCommand('setContext', 'copilotReviewAgent.inReviewDetail', true);
                 try {
-                  const wsFolder = getWorkspaceFolder();
-                  const engine = new GitDiffEngine(wsFolder);
-                  const config = await loadConfig();
-                  const locals = engine.getLocalBranches();
-                  const remotes = engine.getRemoteBranches();
-                  const current = engine.getCurrentBranch();
-                  sidebarProvider.setBranches(locals, remotes, current);
-                  sidebarProvider.setSelectedBranches(config.baseBranch, config.targetBranch);
+                  // Offer a repository choice in multi-root workspaces
+                  const folders = vscode.workspace.workspaceFolders ?? [];
+                  if (folders.length > 1) {
+                    sidebarProvider.setRepositories(
+                      folders.map(f => ({ root: f.uri.fsPath, name: f.name })),
+                      currentRepo ?? getWorkspaceFolder().uri.fsPath
+                    );
+                  }
+                  await sendBranches();
 
                   // Load available models
                   const models = await reviewEngine.listModels();
@@ -694,7 +995,7 @@ export function activate(context: vscode.ExtensionContext) {
                   );
 
                   // Send instructions file status
-                  const instrPath = await getInstructionsFilePath();
+                  const instrPath = await getInstructionsFilePath(getWorkspaceFolder());
                   sidebarProvider.setInstructionsStatus(!!instrPath);
                 } catch (err: unknown) {
                   const msg2 = err instanceof Error ? err.message : String(err);
@@ -704,7 +1005,7 @@ export function activate(context: vscode.ExtensionContext) {
               }
               case 'openInstructions': {
                 try {
-                  const instrPath = await getInstructionsFilePath();
+                  const instrPath = await getInstructionsFilePath(getWorkspaceFolder());
                   if (instrPath) {
                     const doc = await vscode.workspace.openTextDocument(instrPath);
                     await vscode.window.showTextDocument(doc);
@@ -755,23 +1056,27 @@ export function activate(context: vscode.ExtensionContext) {
                 currentSessionId = session.id;
 
                 taskListProvider.setFindings(session.findings);
+                // Restore the repository choice, as far as those folders are still open
+                const openRoots = (session.repoRoots ?? [])
+                  .filter(root => vscode.workspace.workspaceFolders?.some(f => f.uri.fsPath === root));
+                currentRepo = openRoots.length > 1 ? ALL_REPOSITORIES : openRoots[0];
                 let wsFolder: vscode.WorkspaceFolder;
                 try {
-                  wsFolder = getWorkspaceFolder();
+                  wsFolder = resolveRepositories(currentRepo)[0];
+                  for (const finding of session.findings) {
+                    void commentManager.addFinding(finding, folderForFinding(finding));
+                  }
                 } catch (err: unknown) {
                   const msg2 = err instanceof Error ? err.message : String(err);
                   vscode.window.showErrorMessage(`Copilot Review Agent: ${msg2}`);
                   break;
                 }
-                for (const finding of session.findings) {
-                  commentManager.addFinding(finding, wsFolder);
-                }
 
                 const engine = new GitDiffEngine(wsFolder);
-                const targetRef = session.targetBranch || 'HEAD';
+                const targetRef = refForTarget(session.targetBranch);
                 let mergeBase: string;
                 try {
-                  mergeBase = engine.getMergeBase(session.baseBranch, targetRef);
+                  mergeBase = await engine.getMergeBase(session.baseBranch, targetRef);
                 } catch {
                   vscode.window.showErrorMessage(
                     `Copilot Review Agent: Cannot compute merge base between "${session.baseBranch}" and "${targetRef}". The branches may no longer exist or have diverged.`
@@ -781,12 +1086,14 @@ export function activate(context: vscode.ExtensionContext) {
                 currentSelection = {
                   baseBranch: session.baseBranch,
                   targetBranch: session.targetBranch,
-                  includeUncommitted: !session.targetBranch,
+                  includeUncommitted: !session.targetBranch && !session.commits,
                   mergeBase,
+                  ...(session.commits ? { commits: session.commits } : {}),
                 };
 
                 updateStatusBar('findings');
                 sidebarProvider.showReviewDetail(session);
+                setResumableChunks(session.failedChunks?.length ?? 0, session.remainingChunks?.length ?? 0);
                 vscode.commands.executeCommand('setContext', 'copilotReviewAgent.inReviewDetail', true);
                 // Minimize Review Controls and focus findings for past review too
                 if (!controlPanelHidden) {
@@ -859,8 +1166,12 @@ export function activate(context: vscode.ExtensionContext) {
     sidebarProvider,
     sidebarRegistration,
     reviewBranchCmd,
+    reviewCommitsCmd,
     reviewFileCmd,
     refreshCmd,
+    reviewIncrementalCmd,
+    retryFailedChunksCmd,
+    continueReviewCmd,
     clearCmd,
     exportCmd,
     selectBaseCmd,
@@ -884,9 +1195,11 @@ export function activate(context: vscode.ExtensionContext) {
   function updateStatusBar(state: 'idle' | 'reviewing' | 'findings') {
     const findings = taskListProvider.getFindings();
     const open = findings.filter(f => f.status === 'open').length;
-    const branchInfo = currentSelection
-      ? `${currentSelection.baseBranch}..${currentSelection.targetBranch || 'HEAD+wt'}`
-      : '';
+    const branchInfo = !currentSelection
+      ? ''
+      : isIndexTarget(currentSelection.targetBranch)
+        ? describeTarget(currentSelection.targetBranch)
+        : `${currentSelection.baseBranch}..${currentSelection.targetBranch || 'HEAD+wt'}`;
 
     // Show/hide the Review Findings tree view based on state
     // Keep it hidden during "reviewing" so the tab starts closed; only reveal when findings are ready.
@@ -911,17 +1224,41 @@ export function activate(context: vscode.ExtensionContext) {
   // ============================================================
   // Core review runner
   // ============================================================
+  /** One repository to review, with its own engine, config and merge base. */
+  interface ReviewTarget {
+    folder: vscode.WorkspaceFolder;
+    engine: GitDiffEngine;
+    config: CopilotReviewAgentConfig;
+    selection: BranchSelection;
+  }
+
+  interface RunReviewOptions {
+    /** Limit the diff to these paths */
+    filePaths?: string[];
+    /**
+     * Previous session to update in place: only files whose content hash
+     * changed since it are re-reviewed, and findings for the rest carry over.
+     */
+    since?: ReviewSession;
+    /**
+     * Previous session to add to: only the given chunks (its failed ones, or
+     * the ones a cancellation left) are rebuilt from the diff and reviewed,
+     * and their findings are merged into it through the usual deduplication.
+     */
+    resume?: { session: ReviewSession; chunks: SessionChunk[]; mode: 'retry' | 'continue' };
+  }
+
   async function runReview(
-    wsFolder: vscode.WorkspaceFolder,
-    engine: GitDiffEngine,
-    config: import('./types').CopilotReviewAgentConfig,
-    selection: BranchSelection,
+    targets: ReviewTarget[],
     comments: CommentManager,
     taskList: TaskListProvider,
     reviewer: ReviewEngine,
     sidebar: SidebarViewProvider,
-    filePaths?: string[]
+    options: RunReviewOptions = {}
   ): Promise<void> {
+    const { filePaths, since, resume } = options;
+    // Branch selection shared by all targets (they differ only in merge base)
+    const primary = targets[0].selection;
     // Mutex: prevent concurrent review executions
     if (reviewInProgress) {
       vscode.window.showWarningMessage('A review is already in progress.');
@@ -938,6 +1275,7 @@ export function activate(context: vscode.ExtensionContext) {
     }
     updateStatusBar('reviewing');
     sidebar.setReviewState('reviewing');
+    setResumableChunks(0, 0);
 
     // Track agent steps for persistence (legacy format for the store)
     const agentSteps: ReviewAgentStep[] = [];
@@ -958,79 +1296,190 @@ export function activate(context: vscode.ExtensionContext) {
     let subSeq = 0;
     function nextSubId(): string { return 's' + (++subSeq); }
 
-    const sessionId = nextSessionId();
+    const sessionId = since?.id ?? resume?.session.id ?? nextSessionId();
     currentSessionId = sessionId;
 
     const tokenSource = new vscode.CancellationTokenSource();
     activeTokenSource = tokenSource;
     const token = tokenSource.token;
 
+    const multiRepo = targets.length > 1;
+    /** Key for per-file state (hashes, progress) that stays unique across repositories. */
+    const fileKey = (target: ReviewTarget, filePath: string) =>
+      multiRepo ? path.join(target.folder.uri.fsPath, filePath) : filePath;
+    const findingKey = (f: ReviewFinding) =>
+      multiRepo && f.repoRoot ? path.join(f.repoRoot, f.file) : f.file;
+
     try {
-      // ────────────────────────────────
-      // Task 1: Compute diff
-      // ────────────────────────────────
-      const diffTaskId = nextTaskId();
-      sidebar.addTask({ id: diffTaskId, label: 'Analyzing diff', status: 'running', collapsible: true });
-      legacyStep('Computing diff', 'running');
-
-      // Sub-step: merge base
-      const mergeBaseSubId = nextSubId();
-      sidebar.addSubStep({ taskId: diffTaskId, id: mergeBaseSubId, label: 'Computing merge base', status: 'running' });
-
-      const targetRef = selection.targetBranch || 'HEAD';
-      sidebar.updateSubStep({ taskId: diffTaskId, id: mergeBaseSubId, label: 'Computing merge base', status: 'done', detail: `${selection.baseBranch}..${targetRef}` });
-
-      // Sub-step: git diff
-      const gitDiffSubId = nextSubId();
-      sidebar.addSubStep({ taskId: diffTaskId, id: gitDiffSubId, label: 'Running git diff', status: 'running' });
-
-      const rawDiff = engine.getDiff(selection, filePaths);
-      if (!rawDiff.trim()) {
-        sidebar.updateSubStep({ taskId: diffTaskId, id: gitDiffSubId, label: 'Running git diff', status: 'done', detail: 'No changes' });
-        sidebar.updateTask({ id: diffTaskId, status: 'done', detail: 'No changes found' });
-        legacyStep('Computing diff', 'done', 'No changes found');
-        vscode.window.showInformationMessage('Copilot Review Agent: No changes found between the branches.');
-        updateStatusBar('idle');
-        sidebar.setReviewState('idle');
-        reviewInProgress = false;
-        return;
+      const reviewed: Array<{ target: ReviewTarget; files: DiffFile[]; baseRef: string }> = [];
+      const fileHashes: Record<string, string> = {};
+      const diffKeys = new Set<string>();
+      const changedKeys = new Set<string>();
+      const targetCommits: Record<string, string> = {};
+      let anyChanges = false;
+
+      for (const target of targets) {
+        const { engine, config, selection } = target;
+        const repoSuffix = multiRepo ? ` (${target.folder.name})` : '';
+
+        // ────────────────────────────────
+        // Task 1: Compute diff
+        // ────────────────────────────────
+        const diffTaskId = nextTaskId();
+        sidebar.addTask({ id: diffTaskId, label: `Analyzing diff${repoSuffix}`, status: 'running', collapsible: true });
+        legacyStep(`Computing diff${repoSuffix}`, 'running');
+
+        // Sub-step: what is compared (the merge base was resolved with the target)
+        const targetRef = refForTarget(selection.targetBranch);
+        const rangeDetail = selection.commits
+          ? `${selection.commits.length} commit${selection.commits.length !== 1 ? 's' : ''} on ${targetRef}`
+          : isIndexTarget(selection.targetBranch)
+            ? describeTarget(selection.targetBranch)
+            : `${selection.baseBranch}..${targetRef}`;
+        sidebar.addSubStep({ taskId: diffTaskId, id: nextSubId(), label: 'Review range', status: 'done', detail: rangeDetail });
+
+        // Sub-step: git diff
+        const gitDiffSubId = nextSubId();
+        sidebar.addSubStep({ taskId: diffTaskId, id: gitDiffSubId, label: 'Running git diff', status: 'running' });
+
+        const rawDiff = await engine.getDiff(selection, {
+          filePaths,
+          ignoreWhitespace: config.ignoreWhitespace,
+          detectMovedCode: config.detectMovedCode,
+        }, token);
+        if (!rawDiff.trim()) {
+          sidebar.updateSubStep({ taskId: diffTaskId, id: gitDiffSubId, label: 'Running git diff', status: 'done', detail: 'No changes' });
+          sidebar.updateTask({ id: diffTaskId, status: 'done', detail: 'No changes found' });
+          legacyStep(`Computing diff${repoSuffix}`, 'done', 'No changes found');
+          continue;
+        }
+        anyChanges = true;
+        sidebar.updateSubStep({ taskId: diffTaskId, id: gitDiffSubId, label: 'Running git diff', status: 'done' });
+
+        // Sub-step: parse diff
+        const parseSubId = nextSubId();
+        sidebar.addSubStep({ taskId: diffTaskId, id: parseSubId, label: 'Parsing diff output', status: 'running' });
+        const parsedFiles = parseDiff(rawDiff, config.excludePaths);
+
+        // Sub-step: skip files .gitattributes marks as generated, vendored or excluded
+        const skipped = await engine.getAttributeSkips(parsedFiles.map(f => f.path), token);
+        const diffFiles = parsedFiles.filter(f => !skipped.has(f.path));
+        if (skipped.size > 0) {
+          const skipSubId = nextSubId();
+          sidebar.addSubStep({ taskId: diffTaskId, id: skipSubId, label: 'Skipping files marked in .gitattributes', status: 'done', detail: `${skipped.size} file${skipped.size !== 1 ? 's' : ''}` });
+          for (const [skippedPath, reason] of skipped) {
+            const skippedSubId = nextSubId();
+            sidebar.addSubStep({ taskId: diffTaskId, id: skippedSubId, label: skippedPath, status: 'done', detail: `skipped: ${reason}` });
+          }
+          legacyStep(`Skipping files${repoSuffix}`, 'done', `${skipped.size} marked in .gitattributes`);
+        }
+
+        if (diffFiles.length === 0) {
+          sidebar.updateSubStep({ taskId: diffTaskId, id: parseSubId, label: 'Parsing diff output', status: 'done', detail: 'All files excluded' });
+          sidebar.updateTask({ id: diffTaskId, status: 'done', detail: 'All files excluded' });
+          legacyStep(`Computing diff${repoSuffix}`, 'done', 'All files excluded');
+          continue;
+        }
+        sidebar.updateSubStep({ taskId: diffTaskId, id: parseSubId, label: 'Parsing diff output', status: 'done', detail: `${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''} changed` });
+        legacyStep(`Computing diff${repoSuffix}`, 'done');
+        legacyStep(`Parsing diff${repoSuffix}`, 'done', `${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''}`);
+
+        // Sub-step: list changed files
+        for (const df of diffFiles) {
+          const fileSubId = nextSubId();
+          const sizeInfo = df.hunks.reduce((n, h) => n + h.addedLines.length, 0);
+          const fileLabel = df.isRenamed && df.oldPath ? `${df.oldPath} → ${df.path}` : df.path;
+          const detail = df.submodule
+            ? `submodule ${df.submodule.oldCommit?.slice(0, 7) ?? '(added)'}..${df.submodule.newCommit?.slice(0, 7) ?? '(removed)'}`
+            : `+${sizeInfo} lines`;
+          sidebar.addSubStep({ taskId: diffTaskId, id: fileSubId, label: fileLabel, status: 'done', detail });
+        }
+
+        // Sub-step: resolve file contents
+        const resolveSubId = nextSubId();
+        sidebar.addSubStep({ taskId: diffTaskId, id: resolveSubId, label: 'Loading full file contents', status: 'running' });
+        await engine.resolveFileContents(diffFiles, selection, token);
+        sidebar.updateSubStep({ taskId: diffTaskId, id: resolveSubId, label: 'Loading full file contents', status: 'done', detail: `${diffFiles.length} files` });
+        legacyStep(`Loading file contents${repoSuffix}`, 'done', `${diffFiles.length} files`);
+
+        // Sub-step: attribute changed lines to the selected commits
+        if (selection.commits) {
+          const blameSubId = nextSubId();
+          sidebar.addSubStep({ taskId: diffTaskId, id: blameSubId, label: 'Attributing lines to commits', status: 'running' });
+          await engine.attributeCommits(diffFiles, selection, token);
+          sidebar.updateSubStep({ taskId: diffTaskId, id: blameSubId, label: 'Attributing lines to commits', status: 'done', detail: `${selection.commits.length} commit${selection.commits.length !== 1 ? 's' : ''}` });
+        }
+
+        // Sub-step: submodule updates — offer to review the commits they pull in
+        const submodules = diffFiles.filter(f => f.submodule?.oldCommit && f.submodule.newCommit);
+        if (submodules.length > 0) {
+          const names = submodules.map(f => f.path).join(', ');
+          const choice = await vscode.window.showInformationMessage(
+            submodules.length === 1
+              ? `Submodule ${names} was updated. Also review the commits it pulls in?`
+              : `Submodules ${names} were updated. Also review the commits they pull in?`,
+            { modal: true },
+            'Expand'
+          );
+          if (choice === 'Expand') {
+            for (const sub of submodules) {
+              const subId = nextSubId();
+              const range = `${sub.submodule!.oldCommit!.slice(0, 7)}..${sub.submodule!.newCommit!.slice(0, 7)}`;
+              sidebar.addSubStep({ taskId: diffTaskId, id: subId, label: `Expanding submodule ${sub.path}`, status: 'running' });
+              const expanded = await engine.expandSubmodule(sub, config.excludePaths, token);
+              diffFiles.push(...expanded);
+              sidebar.updateSubStep(expanded.length > 0
+                ? { taskId: diffTaskId, id: subId, label: `Expanding submodule ${sub.path}`, status: 'done', detail: `${expanded.length} file${expanded.length !== 1 ? 's' : ''} in ${range}` }
+                : { taskId: diffTaskId, id: subId, label: `Expanding submodule ${sub.path}`, status: 'error', detail: `No changes available for ${range} — is the submodule checked out?` });
+            }
+          }
+        }
+
+        const hashes = hashDiffFiles(diffFiles);
+        for (const [filePath, hash] of Object.entries(hashes)) {
+          fileHashes[fileKey(target, filePath)] = hash;
+        }
+        const targetCommit = await engine.resolveRef(selection.commits?.[0] ?? targetRef, token);
+        targetCommits[target.folder.uri.fsPath] = targetCommit;
+        const baseRef = await engine.getBaseRef(selection, token);
+
+        // Sub-step: incremental mode — only re-review files whose content changed
+        // since the previous session; findings for the rest carry over as-is.
+        let filesToReview = diffFiles;
+        diffFiles.forEach(f => diffKeys.add(fileKey(target, f.path)));
+        if (since?.fileHashes) {
+          const previousHashes = since.fileHashes;
+          filesToReview = diffFiles.filter(f => previousHashes[fileKey(target, f.path)] !== hashes[f.path]);
+
+          const compareSubId = nextSubId();
+          // The content hashes decide what is re-reviewed; the commit only tells the user whether the target moved
+          const previousCommit = since.targetCommits?.[target.folder.uri.fsPath];
+          const movedNote = previousCommit && previousCommit !== targetCommit
+            ? `, target moved ${previousCommit.slice(0, 7)} → ${targetCommit.slice(0, 7)}`
+            : '';
+          const compareDetail = `${filesToReview.length} of ${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''} changed${movedNote}`;
+          sidebar.addSubStep({ taskId: diffTaskId, id: compareSubId, label: 'Comparing with last review', status: 'done', detail: compareDetail });
+          legacyStep(`Comparing with last review${repoSuffix}`, 'done', compareDetail);
+        }
+        filesToReview.forEach(f => changedKeys.add(fileKey(target, f.path)));
+
+        sidebar.updateTask({ id: diffTaskId, status: 'done', detail: `${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''}` });
+        reviewed.push({ target, files: filesToReview, baseRef });
       }
-      sidebar.updateSubStep({ taskId: diffTaskId, id: gitDiffSubId, label: 'Running git diff', status: 'done' });
-
-      // Sub-step: parse diff
-      const parseSubId = nextSubId();
-      sidebar.addSubStep({ taskId: diffTaskId, id: parseSubId, label: 'Parsing diff output', status: 'running' });
-      const diffFiles = engine.parseDiff(rawDiff, config.excludePaths);
-
-      if (diffFiles.length === 0) {
-        sidebar.updateSubStep({ taskId: diffTaskId, id: parseSubId, label: 'Parsing diff output', status: 'done', detail: 'All files excluded' });
-        sidebar.updateTask({ id: diffTaskId, status: 'done', detail: 'All files excluded' });
-        legacyStep('Computing diff', 'done', 'All files excluded');
-        vscode.window.showInformationMessage('Copilot Review Agent: All changed files are excluded.');
+
+      if (diffKeys.size === 0) {
+        vscode.window.showInformationMessage(anyChanges
+          ? 'Copilot Review Agent: All changed files are excluded.'
+          : 'Copilot Review Agent: No changes found between the branches.');
         updateStatusBar('idle');
         sidebar.setReviewState('idle');
         reviewInProgress = false;
         return;
       }
-      sidebar.updateSubStep({ taskId: diffTaskId, id: parseSubId, label: 'Parsing diff output', status: 'done', detail: `${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''} changed` });
-      legacyStep('Computing diff', 'done');
-      legacyStep('Parsing diff', 'done', `${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''}`);
-
-      // Sub-step: list changed files
-      for (const df of diffFiles) {
-        const fileSubId = nextSubId();
-        const sizeInfo = df.hunks.reduce((n, h) => n + h.addedLines.length, 0);
-        sidebar.addSubStep({ taskId: diffTaskId, id: fileSubId, label: df.path, status: 'done', detail: `+${sizeInfo} lines` });
-      }
 
-      // Sub-step: resolve file contents
-      const resolveSubId = nextSubId();
-      sidebar.addSubStep({ taskId: diffTaskId, id: resolveSubId, label: 'Loading full file contents', status: 'running' });
-      engine.resolveFileContents(diffFiles, selection);
-      sidebar.updateSubStep({ taskId: diffTaskId, id: resolveSubId, label: 'Loading full file contents', status: 'done', detail: `${diffFiles.length} files` });
-      legacyStep('Loading file contents', 'done', `${diffFiles.length} files`);
-
-      sidebar.updateTask({ id: diffTaskId, status: 'done', detail: `${diffFiles.length} file${diffFiles.length !== 1 ? 's' : ''}` });
+      const carriedFindings = since?.fileHashes
+        ? since.findings.filter(f => diffKeys.has(findingKey(f)) && !changedKeys.has(findingKey(f)))
+        : [];
 
       // ────────────────────────────────
       // Task 2: Prepare chunks
@@ -1039,10 +1488,40 @@ export function activate(context: vscode.ExtensionContext) {
       sidebar.addTask({ id: chunkTaskId, label: 'Preparing review chunks', status: 'running', collapsible: true });
       legacyStep('Preparing review chunks', 'running');
 
-      const chunks = chunkDiffFiles(diffFiles, config);
+      // Chunks never mix repositories: each is built with its repository's config,
+      // sized for the selected model's context window (the system prompt differs
+      // per repository through its custom instructions).
+      const chunks: Array<DiffChunk & { target: ReviewTarget; baseRef: string }> = [];
+      for (const { target, files, baseRef } of reviewed) {
+        // Measured with the model's tokenizer, like the added symbol and definition context
+        const budget = await reviewer.getTokenBudget(target.config, token);
+
+        // Widen hunks to their enclosing function or class where a symbol provider knows it
+        const symbolSubId = nextSubId();
+        const repoSuffix = multiRepo ? ` (${target.folder.name})` : '';
+        sidebar.addSubStep({ taskId: chunkTaskId, id: symbolSubId, label: `Finding enclosing symbols${repoSuffix}`, status: 'running' });
+        const widened = await addEnclosingSymbols(files, target.config.contextLines, p => target.engine.resolvePath(p), budget.countTokens, token);
+        sidebar.updateSubStep({ taskId: chunkTaskId, id: symbolSubId, label: `Finding enclosing symbols${repoSuffix}`, status: 'done', detail: `${widened} of ${files.length} file${files.length !== 1 ? 's' : ''}` });
+
+        // Signatures of functions the changed lines call, defined outside the diff
+        if (target.config.definitionContextTokens > 0) {
+          const definitionSubId = nextSubId();
+          sidebar.addSubStep({ taskId: chunkTaskId, id: definitionSubId, label: `Looking up referenced definitions${repoSuffix}`, status: 'running' });
+          const found = await addReferencedDefinitions(files, target.config.definitionContextTokens, p => target.engine.resolvePath(p), budget.countTokens, token);
+          sidebar.updateSubStep({ taskId: chunkTaskId, id: definitionSubId, label: `Looking up referenced definitions${repoSuffix}`, status: 'done', detail: `${found} definition${found !== 1 ? 's' : ''}` });
+        }
+
+        const targetChunks = resume
+          ? await rebuildChunks(resume.chunks.filter(c => c.repoRoot === target.folder.uri.fsPath), files, target.config, budget)
+          : await chunkDiffFiles(files, target.config, budget);
+        for (const chunk of targetChunks) {
+          chunks.push({ ...chunk, target, baseRef });
+        }
+      }
 
       for (let i = 0; i < chunks.length; i++) {
-        const files = chunks[i].files.map(f => f.path).join(', ');
+        const repoPrefix = multiRepo ? `${chunks[i].target.folder.name}: ` : '';
+        const files = repoPrefix + chunks[i].files.map(f => f.path + describePart(f)).join(', ');
         const tokens = Math.round(chunks[i].tokenEstimate / 1000);
         const chunkSubId = nextSubId();
         sidebar.addSubStep({
@@ -1059,13 +1538,25 @@ export function activate(context: vscode.ExtensionContext) {
       // ────────────────────────────────
       // Task 3+: AI review per chunk
       // ────────────────────────────────
-      const allFindings: ReviewFinding[] = [];
-
-      for (let i = 0; i < chunks.length; i++) {
-        if (token.isCancellationRequested) { break; }
-
-        const chunk = chunks[i];
-        const chunkFiles = chunk.files.map(f => f.path);
+      // Findings per chunk index, so the merged list keeps chunk order however
+      // the concurrent requests finish.
+      const chunkFindings: ReviewFinding[][] = [];
+      // Chunks that finished. Files with an unfinished chunk (or part) keep
+      // their old hash so a later incremental review picks them up again.
+      const completedChunks = new Set<number>();
+      let startedChunks = 0;
+      const failedChunks: FailedChunk[] = [];
+      const failedIndexes = new Set<number>();
+      // One limit for the whole run, even when repositories configure different ones
+      const maxParallel = Math.min(...targets.map(t => t.config.maxParallelRequests));
+
+      // Findings stream into the task list and comments as chunks report them
+      comments.clearAll();
+      taskList.clearAll();
+
+      await runWithConcurrency(chunks, maxParallel, token, async (chunk, i) => {
+        startedChunks++;
+        const chunkFiles = chunk.files.map(f => f.path + describePart(f));
         const reviewTaskId = nextTaskId();
         const taskLabel = chunks.length === 1
           ? 'Reviewing code with AI'
@@ -1085,7 +1576,7 @@ export function activate(context: vscode.ExtensionContext) {
           sidebar.addSubStep({ taskId: reviewTaskId, id: fpSubId, label: fp, status: 'done' });
         }
 
-        // Sub-step: AI analysis (with streaming tokens)
+        // Sub-step: AI analysis (listing findings as they stream in)
         const aiSubId = nextSubId();
         sidebar.addSubStep({ taskId: reviewTaskId, id: aiSubId, label: 'Waiting for AI response…', status: 'running' });
 
@@ -1093,31 +1584,51 @@ export function activate(context: vscode.ExtensionContext) {
         legacyStep(chunkLabel, 'running', chunkFiles.join(', '));
 
         try {
-          const findings = await reviewer.reviewChunk(chunk, config, token, (fragment) => {
-            sidebar.streamToken(reviewTaskId, aiSubId, fragment);
+          let streamed = 0;
+          const { findings, dropped, snapped, repaired } = await reviewer.reviewChunk(chunk, chunk.target.config, token, (f) => {
+            // Show each finding as soon as it is complete; post-processing
+            // replaces these with the deduplicated list.
+            f.repoRoot = chunk.target.folder.uri.fsPath;
+            if (f.side === 'old') { f.baseRef = chunk.baseRef; }
+            taskList.addFindings([f]);
+            void comments.addFinding(f, folderForFinding(f));
+            streamed++;
+            sidebar.updateSubStep({ taskId: reviewTaskId, id: aiSubId, label: 'Receiving findings…', status: 'running', detail: `${streamed} so far` });
+            sidebar.addSubStep({
+              taskId: reviewTaskId, id: nextSubId(),
+              label: `${severityLabelIcon(f.severity)} ${f.title}`,
+              status: 'done',
+              detail: `${f.file}:${f.startLine}`,
+            });
+          }, {
+            onRetry: ({ attempt, maxAttempts, delayMs, reason }) => sidebar.updateSubStep({
+              taskId: reviewTaskId, id: aiSubId, label: `Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts})`, status: 'running', detail: reason,
+            }),
+            onRetryStart: ({ attempt, maxAttempts }) => sidebar.updateSubStep({
+              taskId: reviewTaskId, id: aiSubId, label: 'Waiting for AI response…', status: 'running', detail: `attempt ${attempt} of ${maxAttempts}`,
+            }),
           });
 
-          allFindings.push(...findings);
+          // A request cut short by cancellation returns no findings; it did not complete
+          if (token.isCancellationRequested) {
+            sidebar.updateSubStep({ taskId: reviewTaskId, id: aiSubId, label: 'AI analysis cancelled', status: 'error' });
+            sidebar.updateTask({ id: reviewTaskId, status: 'error', detail: 'Cancelled' });
+            legacyStep(chunkLabel, 'error', 'Cancelled');
+            return;
+          }
+
+          chunkFindings[i] = findings;
+          completedChunks.add(i);
 
+          const droppedNote = [describeDropped(dropped), snapped > 0 ? `${snapped} moved onto changed lines` : '']
+            .filter(Boolean).join(', ');
           sidebar.updateSubStep({
             taskId: reviewTaskId, id: aiSubId,
-            label: 'AI analysis complete',
+            label: repaired ? 'AI analysis complete (response repaired)' : 'AI analysis complete',
             status: 'done',
-            detail: `${findings.length} finding${findings.length !== 1 ? 's' : ''}`,
+            detail: `${findings.length} finding${findings.length !== 1 ? 's' : ''}${droppedNote ? ` — ${droppedNote}` : ''}`,
           });
 
-          // Sub-steps: list each finding
-          for (const f of findings) {
-            const findSubId = nextSubId();
-            const sevIcon = f.severity === 'blocker' ? '🔴' : f.severity === 'high' ? '🟠' : f.severity === 'medium' ? '🟡' : '🔵';
-            sidebar.addSubStep({
-              taskId: reviewTaskId, id: findSubId,
-              label: `${sevIcon} ${f.title}`,
-              status: 'done',
-              detail: `${f.file}:${f.startLine}`,
-            });
-          }
-
           sidebar.updateTask({ id: reviewTaskId, status: 'done', detail: `${findings.length} finding${findings.length !== 1 ? 's' : ''}` });
           legacyStep(chunkLabel, 'done', `${findings.length} finding${findings.length !== 1 ? 's' : ''}`);
         } catch (err: unknown) {
@@ -1125,15 +1636,22 @@ export function activate(context: vscode.ExtensionContext) {
           sidebar.updateSubStep({ taskId: reviewTaskId, id: aiSubId, label: 'AI analysis failed', status: 'error', detail: msg });
           sidebar.updateTask({ id: reviewTaskId, status: 'error', detail: msg });
           legacyStep(chunkLabel, 'error', msg);
-          vscode.window.showWarningMessage(`Copilot Review Agent: Chunk ${i + 1} failed: ${msg}`);
+          if (!token.isCancellationRequested) {
+            failedChunks.push({ repoRoot: chunk.target.folder.uri.fsPath, error: msg, ...describeChunk(chunk) });
+            failedIndexes.add(i);
+            vscode.window.showWarningMessage(`Copilot Review Agent: Chunk ${i + 1} failed: ${msg}`);
+          }
         }
-      }
+      });
+      const allFindings = chunkFindings.flat();
 
       const wasCancelled = token.isCancellationRequested;
 
-      if (wasCancelled && allFindings.length === 0) {
+      // Once a chunk has started, a partial session is saved even without
+      // findings, to record which chunks remain (as does a resumed review)
+      if (wasCancelled && startedChunks === 0 && carriedFindings.length === 0 && !resume) {
         const cancelTaskId = nextTaskId();
-        sidebar.addTask({ id: cancelTaskId, label: 'Review cancelled', status: 'done', detail: 'Cancelled before any findings were collected' });
+        sidebar.addTask({ id: cancelTaskId, label: 'Review cancelled', status: 'done', detail: 'Cancelled before any chunk was reviewed' });
         updateStatusBar('idle');
         sidebar.setReviewState('idle');
         reviewInProgress = false;
@@ -1150,19 +1668,92 @@ export function activate(context: vscode.ExtensionContext) {
       // Deduplicate
       const dedupSubId = nextSubId();
       sidebar.addSubStep({ taskId: postTaskId, id: dedupSubId, label: 'Deduplicating findings', status: 'running' });
-      const deduped = deduplicateFindings(allFindings);
+      let deduped = deduplicateFindings(allFindings);
       sidebar.updateSubStep({ taskId: postTaskId, id: dedupSubId, label: 'Deduplicating findings', status: 'done', detail: `${deduped.length} unique of ${allFindings.length} total` });
       legacyStep('Deduplicating findings', 'done', `${deduped.length} unique`);
 
+      // Optional second pass: the model re-checks each new finding against a
+      // focused window of the code, and refuted ones are demoted or dropped
+      const reviewedFor = (f: ReviewFinding) => reviewed.find(r => r.target.folder.uri.fsPath === f.repoRoot);
+      const verifyMode = (f: ReviewFinding) => reviewedFor(f)?.target.config.verifyFindings ?? 'off';
+      const toVerify = wasCancelled ? [] : deduped.filter(f => verifyMode(f) !== 'off');
+      if (toVerify.length > 0) {
+        const verifySubId = nextSubId();
+        const verifyLabel = 'Verifying findings';
+        sidebar.addSubStep({ taskId: postTaskId, id: verifySubId, label: verifyLabel, status: 'running', detail: `0 of ${toVerify.length}` });
+        legacyStep(verifyLabel, 'running');
+        let checked = 0;
+        let refuted = 0;
+        await runWithConcurrency(toVerify, maxParallel, token, async (finding) => {
+          const entry = reviewedFor(finding);
+          const file = entry?.files.find(d => d.path === finding.file);
+          if (!entry || !file) { return; }
+          try {
+            const verification = await reviewer.verifyFinding(finding, buildFindingContext(file, finding, entry.target.config), token, {
+              onRetry: ({ attempt, maxAttempts, delayMs, reason }) => sidebar.updateSubStep({
+                taskId: postTaskId, id: verifySubId, label: verifyLabel, status: 'running',
+                detail: `${checked} of ${toVerify.length} — retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${maxAttempts}): ${reason}`,
+              }),
+              onRetryStart: () => sidebar.updateSubStep({
+                taskId: postTaskId, id: verifySubId, label: verifyLabel, status: 'running', detail: `${checked} of ${toVerify.length}`,
+              }),
+            });
+            if (!verification || token.isCancellationRequested) { return; }
+            finding.verification = verification;
+            if (verification.verdict === 'refuted') {
+              refuted++;
+              sidebar.addSubStep({
+                taskId: postTaskId, id: nextSubId(),
+                label: `${severityLabelIcon(finding.severity)} ${finding.title}`,
+                status: 'done',
+                detail: `Refuted: ${verification.reasoning}`,
+              });
+            }
+          } catch (err: unknown) {
+            // An unverified finding is kept as reported
+            const msg = err instanceof Error ? err.message : String(err);
+            sidebar.addSubStep({ taskId: postTaskId, id: nextSubId(), label: `Could not verify: ${finding.title}`, status: 'error', detail: msg });
+          } finally {
+            checked++;
+            sidebar.updateSubStep({ taskId: postTaskId, id: verifySubId, label: verifyLabel, status: 'running', detail: `${checked} of ${toVerify.length}` });
+          }
+        });
+        const dropped = deduped.filter(f => f.verification?.verdict === 'refuted' && verifyMode(f) === 'drop').length;
+        deduped = deduped.filter(f => !(f.verification?.verdict === 'refuted' && verifyMode(f) === 'drop'));
+        const verifyDetail = `${refuted} of ${toVerify.length} refuted${dropped > 0 ? `, ${dropped} dropped` : ''}`;
+        sidebar.updateSubStep({ taskId: postTaskId, id: verifySubId, label: verifyLabel, status: 'done', detail: verifyDetail });
+        legacyStep(verifyLabel, 'done', verifyDetail);
+      }
+
+      let finalFindings = deduped;
+      if (since) {
+        // Keep IDs and statuses of findings the model reported again, then add
+        // the findings carried over from unchanged files.
+        const reconciled = reconcileFindings(since.findings.filter(f => changedKeys.has(findingKey(f))), deduped);
+        finalFindings = [...carriedFindings, ...reconciled];
+        const carrySubId = nextSubId();
+        sidebar.addSubStep({ taskId: postTaskId, id: carrySubId, label: 'Carrying over findings', status: 'done', detail: `${carriedFindings.length} from unchanged files` });
+        legacyStep('Carrying over findings', 'done', `${carriedFindings.length} from unchanged files`);
+      } else if (resume) {
+        // Existing findings come first so theirs win (with IDs and statuses) over duplicates
+        finalFindings = deduplicateFindings([...resume.session.findings, ...deduped]);
+        const mergeSubId = nextSubId();
+        const added = finalFindings.length - resume.session.findings.length;
+        sidebar.addSubStep({ taskId: postTaskId, id: mergeSubId, label: 'Merging into the review', status: 'done', detail: `${added} new finding${added !== 1 ? 's' : ''}` });
+        legacyStep('Merging into the review', 'done', `${added} new finding${added !== 1 ? 's' : ''}`);
+      }
+
       // Create comments
       const commentSubId = nextSubId();
       sidebar.addSubStep({ taskId: postTaskId, id: commentSubId, label: 'Creating inline comments', status: 'running' });
       legacyStep('Creating review comments', 'running');
-      taskList.setFindings(deduped);
-      for (const finding of deduped) {
-        comments.addFinding(finding, wsFolder);
+      // Replace the streamed findings with the final list
+      comments.clearAll();
+      taskList.setFindings(finalFindings);
+      for (const finding of finalFindings) {
+        void comments.addFinding(finding, folderForFinding(finding));
       }
-      sidebar.updateSubStep({ taskId: postTaskId, id: commentSubId, label: 'Creating inline comments', status: 'done', detail: `${deduped.length} comments` });
+      sidebar.updateSubStep({ taskId: postTaskId, id: commentSubId, label: 'Creating inline comments', status: 'done', detail: `${finalFindings.length} comments` });
       legacyStep('Creating review comments', 'done');
 
       // Populate tree
@@ -1187,30 +1778,75 @@ export function activate(context: vscode.ExtensionContext) {
       vscode.commands.executeCommand('copilotReviewAgent.taskList.focus');
 
       // Summary
-      const openCount = deduped.filter(f => f.status === 'open').length;
-      const fileCount = new Set(deduped.map(f => f.file)).size;
-      sidebar.setReviewSummary(openCount, fileCount, deduped.length);
+      const openCount = finalFindings.filter(f => f.status === 'open').length;
+      const fileCount = new Set(finalFindings.map(findingKey)).size;
+      sidebar.setReviewSummary(openCount, fileCount, finalFindings.length);
 
       if (wasCancelled) {
         vscode.window.showWarningMessage(
-          `Copilot Review Agent: Cancelled after processing some chunks. ${deduped.length} finding(s) from completed chunks have been preserved.`
+          `Copilot Review Agent: Cancelled after processing some chunks. ${finalFindings.length} finding(s) from completed chunks have been preserved.`
         );
       }
 
+      const incompleteKeys = new Set(chunks
+        .filter((_, i) => !completedChunks.has(i))
+        .flatMap(c => c.files.map(f => fileKey(c.target, f.path))));
+      const reviewedHashes: Record<string, string> = {};
+      for (const [key, hash] of Object.entries(fileHashes)) {
+        if (!incompleteKeys.has(key)) {
+          reviewedHashes[key] = hash;
+        } else if (since?.fileHashes?.[key]) {
+          reviewedHashes[key] = since.fileHashes[key];
+        }
+      }
+
+      const completedKeys = new Set(chunks
+        .filter((_, i) => completedChunks.has(i))
+        .flatMap(c => c.files.map(f => fileKey(c.target, f.path))));
+      const resumedHashes = Object.fromEntries(Object.entries(fileHashes).filter(([key]) => completedKeys.has(key)));
+
+      // Chunks a cancellation kept from finishing (neither completed nor failed)
+      const remainingChunks: SessionChunk[] = chunks
+        .filter((_, i) => !completedChunks.has(i) && !failedIndexes.has(i))
+        .map(c => ({ repoRoot: c.target.folder.uri.fsPath, ...describeChunk(c) }));
+      // A resumed run replaces the list it worked through and keeps the other
+      const allFailed = [...(resume?.mode === 'continue' ? resume.session.failedChunks ?? [] : []), ...failedChunks];
+      const allRemaining = [...(resume?.mode === 'retry' ? resume.session.remainingChunks ?? [] : []), ...remainingChunks];
+      const mergeBases = resume?.session.mergeBases ?? Object.fromEntries(targets
+        .filter(t => t.selection.mergeBase)
+        .map(t => [t.folder.uri.fsPath, t.selection.mergeBase!]));
+
       // Persist
       const session: ReviewSession = {
         id: sessionId,
         timestamp: Date.now(),
-        baseBranch: selection.baseBranch,
-        targetBranch: selection.targetBranch,
+        baseBranch: primary.baseBranch,
+        targetBranch: primary.targetBranch,
         modelId: reviewer.selectedModelId,
-        findings: deduped,
-        agentSteps,
-        summary: { totalFindings: deduped.length, openCount, fileCount },
-        ...(wasCancelled ? { partial: true } : {}),
+        findings: finalFindings,
+        agentSteps: resume ? [...resume.session.agentSteps, ...agentSteps] : agentSteps,
+        summary: { totalFindings: finalFindings.length, openCount, fileCount },
+        ...((resume ? allRemaining.length > 0 : wasCancelled) ? { partial: true } : {}),
+        ...(primary.commits ? { commits: primary.commits } : {}),
+        targetCommits: resume ? { ...resume.session.targetCommits, ...targetCommits } : targetCommits,
+        // A resumed run covers only the files of the rebuilt chunks: the rest keep the hashes they had
+        fileHashes: resume ? { ...resume.session.fileHashes, ...resumedHashes } : reviewedHashes,
+        repoRoots: resume?.session.repoRoots ?? targets.map(t => t.folder.uri.fsPath),
+        ...(allFailed.length > 0 ? { failedChunks: allFailed } : {}),
+        ...(allRemaining.length > 0 ? { remainingChunks: allRemaining } : {}),
+        mergeBases,
       };
       await reviewStore.save(session);
+      setResumableChunks(allFailed.length, allRemaining.length);
     } catch (err: unknown) {
+      if (err instanceof vscode.CancellationError) {
+        // Cancelled while git was still running — nothing to finalize
+        const cancelTaskId = nextTaskId();
+        sidebar.addTask({ id: cancelTaskId, label: 'Review cancelled', status: 'done', detail: 'Cancelled while computing the diff' });
+        updateStatusBar('idle');
+        sidebar.setReviewState('idle');
+        return;
+      }
       const msg = err instanceof Error ? err.message : String(err);
       const errTaskId = nextTaskId();
       sidebar.addTask({ id: errTaskId, label: 'Error', status: 'error', detail: msg });
@@ -1226,42 +1862,78 @@ export function activate(context: vscode.ExtensionContext) {
   }
 }
 
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight, starting
+ * items in order. No new items start once `token` is cancelled; `worker` is
+ * expected to handle its own errors.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  token: vscode.CancellationToken,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+    while (next < items.length && !token.isCancellationRequested) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/** Icon prefixed to finding titles in sidebar sub-steps. */
+function severityLabelIcon(severity: Severity): string {
+  return severity === 'blocker' ? '🔴' : severity === 'high' ? '🟠' : severity === 'medium' ? '🟡' : '🔵';
+}
+
+/** Summary of rejected findings for a chunk sub-step, e.g. "dropped 2 (1 unknown category, 1 past end of file)". */
+function describeDropped(dropped: Record<string, number>): string {
+  const entries = Object.entries(dropped);
+  if (entries.length === 0) { return ''; }
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+  return `dropped ${total} (${entries.map(([reason, count]) => `${count} ${reason}`).join(', ')})`;
+}
+
+const normalizeTitleTokens = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+const titleSimilarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) { return 0; }
+  const aSet = new Set(a);
+  const bSet = new Set(b);
+  let intersection = 0;
+  for (const token of aSet) {
+    if (bSet.has(token)) { intersection++; }
+  }
+  const union = aSet.size + bSet.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+};
+
+const rangesOverlap = (aStart: number, aEnd: number, bStart: number, bEnd: number): boolean =>
+  aStart <= bEnd && aEnd >= bStart;
+
 /** Remove duplicate findings with overlapping file + line ranges */
 function deduplicateFindings(findings: ReviewFinding[]): ReviewFinding[] {
   const seen = new Set<string>();
   const result: ReviewFinding[] = [];
 
-  const normalizeTitleTokens = (text: string): string[] =>
-    text
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, ' ')
-      .trim()
-      .split(/\s+/)
-      .filter(Boolean);
-
-  const titleSimilarity = (a: string[], b: string[]): number => {
-    if (a.length === 0 || b.length === 0) { return 0; }
-    const aSet = new Set(a);
-    const bSet = new Set(b);
-    let intersection = 0;
-    for (const token of aSet) {
-      if (bSet.has(token)) { intersection++; }
-    }
-    const union = aSet.size + bSet.size - intersection;
-    return union === 0 ? 0 : intersection / union;
-  };
-
-  const rangesOverlap = (aStart: number, aEnd: number, bStart: number, bEnd: number): boolean =>
-    aStart <= bEnd && aEnd >= bStart;
-
-  // Group findings by file first to reduce comparison space
+  // Group findings by repository and file (and diff side, since old and new
+  // line numbers are unrelated) first to reduce comparison space
   const findingsByFile = new Map<string, ReviewFinding[]>();
   for (const f of findings) {
-    const fileFindings = findingsByFile.get(f.file);
+    const fileKey = `${f.repoRoot ?? ''}\0${f.side ?? 'new'}:${f.file}`;
+    const fileFindings = findingsByFile.get(fileKey);
     if (fileFindings) {
       fileFindings.push(f);
     } else {
-      findingsByFile.set(f.file, [f]);
+      findingsByFile.set(fileKey, [f]);
     }
   }
 
@@ -1272,7 +1944,7 @@ function deduplicateFindings(findings: ReviewFinding[]): ReviewFinding[] {
     for (const f of fileFindings) {
       const normalizedTokens = normalizeTitleTokens(f.title);
       const normalizedTitle = normalizedTokens.join(' ');
-      const key = `${f.file}:${f.startLine}:${f.endLine}:${normalizedTitle}`;
+      const key = `${f.repoRoot ?? ''}\0${f.side ?? 'new'}:${f.file}:${f.startLine}:${f.endLine}:${normalizedTitle}`;
       if (seen.has(key)) { continue; }
 
       // Only check for near-duplicates within the same file
@@ -1291,6 +1963,29 @@ function deduplicateFindings(findings: ReviewFinding[]): ReviewFinding[] {
   return result;
 }
 
+/**
+ * Match fresh findings against the previous session's findings for the same
+ * files. A match (same file, overlapping lines, similar title) keeps the
+ * previous ID and status so skipped/fixed findings stay resolved.
+ */
+function reconcileFindings(previous: ReviewFinding[], fresh: ReviewFinding[]): ReviewFinding[] {
+  const claimed = new Set<string>();
+  return fresh.map(f => {
+    const tokens = normalizeTitleTokens(f.title);
+    const match = previous.find(p =>
+      !claimed.has(p.id)
+      && p.repoRoot === f.repoRoot
+      && p.file === f.file
+      && (p.side ?? 'new') === (f.side ?? 'new')
+      && rangesOverlap(p.startLine, p.endLine, f.startLine, f.endLine)
+      && titleSimilarity(normalizeTitleTokens(p.title), tokens) >= 0.6
+    );
+    if (!match) { return f; }
+    claimed.add(match.id);
+    return { ...f, id: match.id, status: match.status };
+  });
+}
+
 export function deactivate() {
   // Cancel any in-flight AI request
   activeTokenSource?.cancel();
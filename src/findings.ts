@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { Category, ReviewFinding, Severity } from './types';
+
+const validSeverities: Severity[] = ['blocker', 'high', 'medium', 'low', 'nit'];
+
+const validCategories: Category[] = [
+  'security',
+  'performance',
+  'correctness',
+  'maintainability',
+  'testing',
+  'style',
+  'other',
+];
+
+export function isValidSeverity(s: unknown): s is Severity {
+  return typeof s === 'string' && validSeverities.includes(s as Severity);
+}
+
+export function isValidCategory(c: unknown): c is Category {
+  return typeof c === 'string' && validCategories.includes(c as Category);
+}
+
+/** Severity comparison for filtering */
+export function severityRank(severity: Severity): number {
+  const ranks: Record<Severity, number> = {
+    blocker: 5,
+    high: 4,
+    medium: 3,
+    low: 2,
+    nit: 1,
+  };
+  return ranks[severity];
+}
+
+/** Generates a unique finding ID */
+export function nextFindingId(): string {
+  return `sr-${randomUUID()}`;
+}
+
+/** A finding as the model writes it, before validation. */
+type RawFinding = Record<string, unknown>;
+
+/**
+ * Check a raw finding against the output schema: file and title present,
+ * known severity and category, positive integer lines with endLine >=
+ * startLine, and a confidence from 0 to 1 when given. Returns the finding,
+ * or why it was dropped.
+ */
+export function validateFinding(f: unknown): ReviewFinding | string {
+  if (f === null || typeof f !== 'object' || Array.isArray(f)) { return 'not an object'; }
+  const raw = f as RawFinding;
+  if (typeof raw.file !== 'string' || !raw.file || typeof raw.title !== 'string' || !raw.title) {
+    return 'missing file or title';
+  }
+  if (!isValidSeverity(raw.severity)) { return 'unknown severity'; }
+  if (!isValidCategory(raw.category)) { return 'unknown category'; }
+  const startLine = raw.startLine;
+  const endLine = raw.endLine ?? startLine;
+  if (!Number.isInteger(startLine) || !Number.isInteger(endLine)
+    || (startLine as number) < 1 || (endLine as number) < (startLine as number)) {
+    return 'invalid line range';
+  }
+  if (raw.confidence !== undefined
+    && (typeof raw.confidence !== 'number' || !(raw.confidence >= 0 && raw.confidence <= 1))) {
+    return 'invalid confidence';
+  }
+  if ((raw.description !== undefined && typeof raw.description !== 'string')
+    || (raw.suggestedFix !== undefined && raw.suggestedFix !== null && typeof raw.suggestedFix !== 'string')
+    || (raw.side !== undefined && raw.side !== 'old' && raw.side !== 'new')) {
+    return 'invalid field';
+  }
+  return {
+    id: nextFindingId(),
+    file: raw.file,
+    startLine: startLine as number,
+    endLine: endLine as number,
+    severity: raw.severity,
+    title: raw.title,
+    description: (raw.description as string | undefined) ?? '',
+    suggestedFix: (raw.suggestedFix as string | null | undefined) ?? undefined,
+    category: raw.category,
+    ...(typeof raw.confidence === 'number' ? { confidence: raw.confidence } : {}),
+    status: 'open',
+    ...(raw.side === 'old' ? { side: 'old' as const } : {}),
+  };
+}
+
+/**
+ * Whether a finding clears `min_confidence`. A finding the model gave no
+ * confidence is kept: the field is optional in the output schema, and a
+ * model that omits it should not have every finding silently filtered out.
+ */
+export function meetsMinConfidence(finding: ReviewFinding, minConfidence: number): boolean {
+  return finding.confidence === undefined || finding.confidence >= minConfidence;
+}
+
+/** Ranking score: severity weighted by confidence (findings without one count as certain). */
+export function findingScore(finding: ReviewFinding): number {
+  return severityRank(finding.severity) * (finding.confidence ?? 1);
+}
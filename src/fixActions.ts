@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { ReviewFinding } from './types';
 import { ReviewEngine } from './reviewer';
+import { resolvePath } from './git';
 
 /**
  * Fix action handlers: Fix Inline, Fix in Chat, Fix in Copilot Edits
@@ -19,8 +19,7 @@ export class FixActions {
     finding: ReviewFinding,
     workspaceFolder: vscode.WorkspaceFolder
   ): Promise<vscode.TextEditor | null> {
-    const filePath = path.join(workspaceFolder.uri.fsPath, finding.file);
-    const uri = vscode.Uri.file(filePath);
+    const uri = vscode.Uri.file(await resolvePath(workspaceFolder.uri.fsPath, finding.file));
     try {
       await vscode.workspace.fs.stat(uri);
     } catch {
@@ -30,6 +29,12 @@ export class FixActions {
     const doc = await vscode.workspace.openTextDocument(uri);
     const editor = await vscode.window.showTextDocument(doc);
 
+    // Findings on removed code are numbered in the base version; those lines
+    // no longer exist in this file, so there is nothing to select.
+    if (finding.side === 'old') {
+      return editor;
+    }
+
     // Select the relevant lines (clamp to valid document range)
     const startLine = Math.max(0, Math.min(doc.lineCount - 1, finding.startLine - 1));
     const endLine = Math.max(startLine, Math.min(doc.lineCount - 1, finding.endLine - 1));
@@ -75,7 +80,9 @@ export class FixActions {
    */
   async fixInChat(finding: ReviewFinding, workspaceFolder: vscode.WorkspaceFolder): Promise<boolean> {
     const query = [
-      `Fix this code review finding in #file:"${finding.file}" at line ${finding.startLine}:`,
+      finding.side === 'old'
+        ? `Fix this code review finding in #file:"${finding.file}" about code removed at line ${finding.startLine} of the previous version:`
+        : `Fix this code review finding in #file:"${finding.file}" at line ${finding.startLine}:`,
       ``,
       `**${finding.severity.toUpperCase()}**: ${finding.title}`,
       ``,
@@ -1,9 +1,165 @@
 import * as vscode from 'vscode';
-import { execSync } from 'child_process';
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import * as path from 'path';
 import * as fs from 'fs';
-import { DiffFile, DiffHunk, BranchSelection } from './types';
+import { DiffFile, BranchSelection, CommitInfo } from './types';
 import { minimatch } from './minimatch';
+import { parseDiff } from './diffParser';
+
+/** SHA of git's empty tree, used as the diff base for root commits. */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/** Target that reviews only the changes staged in the index (`git diff --cached`). */
+export const STAGED_TARGET = ':staged';
+/** Target that reviews only the working-tree changes not yet staged (`git diff`). */
+export const UNSTAGED_TARGET = ':unstaged';
+/** Revision naming the index, usable wherever `<rev>:<path>` is accepted. */
+export const INDEX_REF = ':0';
+
+/** Whether a target compares against the index rather than a branch. */
+export function isIndexTarget(targetBranch: string): boolean {
+  return targetBranch === STAGED_TARGET || targetBranch === UNSTAGED_TARGET;
+}
+
+/** The commit a target is based on, for merge bases and commit listings. */
+export function refForTarget(targetBranch: string): string {
+  return targetBranch && !isIndexTarget(targetBranch) ? targetBranch : 'HEAD';
+}
+
+/** Human-readable name of a target, with the commit count of a commit-range review. */
+export function describeTarget(targetBranch: string, commitCount?: number): string {
+  let target: string;
+  switch (targetBranch) {
+    case '': target = 'HEAD + working tree'; break;
+    case STAGED_TARGET: target = 'staged changes'; break;
+    case UNSTAGED_TARGET: target = 'unstaged changes'; break;
+    default: target = targetBranch;
+  }
+  return commitCount ? `${target} · ${commitCount} commit${commitCount !== 1 ? 's' : ''}` : target;
+}
+
+/** .gitattributes attributes that exclude a file from review. */
+const SKIP_ATTRIBUTES = ['linguist-generated', 'linguist-vendored', 'copilot-review'];
+
+/** Why an attribute value excludes a file, or undefined if it does not. */
+function attributeSkipReason(attribute: string, value: string): string | undefined {
+  const isSet = value === 'set' || value === 'true';
+  switch (attribute) {
+    case 'linguist-generated': return isSet ? 'generated (linguist-generated)' : undefined;
+    case 'linguist-vendored': return isSet ? 'vendored (linguist-vendored)' : undefined;
+    case 'copilot-review': return value === 'skip' ? 'copilot-review=skip' : undefined;
+    default: return undefined;
+  }
+}
+
+/** Optional git diff behaviour for a review. */
+export interface DiffOptions {
+  /** Limit the diff to these paths. */
+  filePaths?: string[];
+  /** Ignore whitespace-only changes (`-w`). */
+  ignoreWhitespace?: boolean;
+  /** Mark moved blocks (`--color-moved`), recorded in DiffHunk.movedLines. */
+  detectMovedCode?: boolean;
+}
+
+/** Variables that point git at a specific repository instead of the one containing cwd. */
+const REPOSITORY_ENV_VARS = ['GIT_DIR', 'GIT_WORK_TREE', 'GIT_INDEX_FILE', 'GIT_COMMON_DIR', 'GIT_PREFIX'];
+
+/**
+ * Environment for git child processes. Repository-selecting variables are
+ * dropped so every command resolves the repository, HEAD and index of the
+ * worktree containing its cwd, even when the editor inherited them from a
+ * git hook or a shell in another worktree.
+ */
+function gitEnv(): NodeJS.ProcessEnv {
+  const env = { ...process.env };
+  for (const key of REPOSITORY_ENV_VARS) {
+    delete env[key];
+  }
+  return env;
+}
+
+/** Reject refs that git would parse as an option (e.g. "--output=…"). */
+function assertRef(ref: string): string {
+  if (ref.startsWith('-')) {
+    throw new Error(`Invalid git ref: "${ref}"`);
+  }
+  return ref;
+}
+
+/**
+ * Run git with an argument array and resolve with trimmed stdout.
+ *
+ * No shell is involved, so refs and paths containing spaces or shell
+ * metacharacters are passed through verbatim. Output is streamed into
+ * memory chunk by chunk (no maxBuffer cap), and the child process is
+ * killed when `token` is cancelled.
+ */
+function runGit(cwd: string, args: string[], token?: vscode.CancellationToken): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (token?.isCancellationRequested) {
+      reject(new vscode.CancellationError());
+      return;
+    }
+
+    const child = spawn('git', args, { cwd, env: gitEnv() });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (data: Buffer) => stdout.push(data));
+    child.stderr.on('data', (data: Buffer) => stderr.push(data));
+
+    const cancelListener = token?.onCancellationRequested(() => child.kill());
+
+    child.on('error', (err) => {
+      cancelListener?.dispose();
+      reject(new Error(`git ${args[0]} failed: ${err.message}`));
+    });
+    child.on('close', (code) => {
+      cancelListener?.dispose();
+      if (token?.isCancellationRequested) {
+        reject(new vscode.CancellationError());
+        return;
+      }
+      if (code !== 0) {
+        const msg = Buffer.concat(stderr).toString('utf-8').trim() || `exited with code ${code}`;
+        reject(new Error(`git ${args[0]} failed: ${msg}`));
+        return;
+      }
+      resolve(Buffer.concat(stdout).toString('utf-8').trim());
+    });
+  });
+}
+
+/** Worktree roots by directory, looked up once each. */
+const worktreeRoots = new Map<string, Promise<string>>();
+
+/**
+ * Root of the worktree containing `dir`. For a linked worktree this is the
+ * worktree's own directory, not the main checkout; for a workspace folder
+ * nested inside a repository it is the repository root.
+ */
+function worktreeRootOf(dir: string): Promise<string> {
+  let root = worktreeRoots.get(dir);
+  if (!root) {
+    root = runGit(dir, ['rev-parse', '--show-toplevel']).catch(() => dir);
+    worktreeRoots.set(dir, root);
+  }
+  return root;
+}
+
+/**
+ * Absolute path of a file as git names it (relative to the worktree root)
+ * for the repository at or above `dir`, e.g. a finding's `repoRoot`.
+ */
+export async function resolvePath(dir: string, filePath: string): Promise<string> {
+  return path.join(await worktreeRootOf(dir), filePath);
+}
+
+/** The inverse of resolvePath: an absolute path as git names it, with forward slashes. */
+export async function repositoryPath(dir: string, fsPath: string): Promise<string> {
+  return path.relative(await worktreeRootOf(dir), fsPath).split(path.sep).join('/');
+}
 
 /**
  * Git operations for computing diffs between branches.
@@ -13,46 +169,51 @@ import { minimatch } from './minimatch';
 export class GitDiffEngine {
   private cwd: string;
 
-  constructor(private workspaceFolder: vscode.WorkspaceFolder) {
-    this.cwd = workspaceFolder.uri.fsPath;
+  /**
+   * @param cwd Directory git runs in; defaults to the workspace folder. A
+   *   submodule engine runs inside the submodule checkout.
+   */
+  constructor(private workspaceFolder: vscode.WorkspaceFolder, cwd = workspaceFolder.uri.fsPath) {
+    this.cwd = cwd;
   }
 
-  /** Run a git command and return stdout */
-  private git(args: string, maxBuffer = 10 * 1024 * 1024): string {
-    try {
-      return execSync(`git ${args}`, {
-        cwd: this.cwd,
-        encoding: 'utf-8',
-        maxBuffer,
-      }).trim();
-    } catch (err: unknown) {
-      const msg = err instanceof Error ? err.message : String(err);
-      throw new Error(`git ${args.split(' ')[0]} failed: ${msg}`);
-    }
+  /** Root of the worktree containing cwd. */
+  private worktreeRoot(): Promise<string> {
+    return worktreeRootOf(this.cwd);
+  }
+
+  /** Absolute path of a repository-relative file in this worktree. */
+  resolvePath(filePath: string): Promise<string> {
+    return resolvePath(this.cwd, filePath);
+  }
+
+  /** Run git in this engine's directory. */
+  private git(args: string[], token?: vscode.CancellationToken): Promise<string> {
+    return runGit(this.cwd, args, token);
   }
 
-  /** Get the current branch name */
-  getCurrentBranch(): string {
-    return this.git('rev-parse --abbrev-ref HEAD');
+  /** Get the branch checked out in this worktree ("HEAD" when detached) */
+  async getCurrentBranch(): Promise<string> {
+    return this.git(['rev-parse', '--abbrev-ref', 'HEAD']);
   }
 
   /** List local branches */
-  getLocalBranches(): string[] {
-    const raw = this.git("branch --format='%(refname:short)'");
+  async getLocalBranches(): Promise<string[]> {
+    const raw = await this.git(['branch', '--format=%(refname:short)']);
     return raw.split('\n').filter(Boolean);
   }
 
   /** List remote branches */
-  getRemoteBranches(): string[] {
-    const raw = this.git("branch -r --format='%(refname:short)'");
+  async getRemoteBranches(): Promise<string[]> {
+    const raw = await this.git(['branch', '-r', '--format=%(refname:short)']);
     return raw.split('\n').filter(Boolean).map(b => b.replace(/^origin\//, ''));
   }
 
   /** Compute merge base between two refs.
    *  Falls back to the base ref itself when branches are unrelated (orphan). */
-  getMergeBase(ref1: string, ref2: string): string {
+  async getMergeBase(ref1: string, ref2: string): Promise<string> {
     try {
-      return this.git(`merge-base ${ref1} ${ref2}`);
+      return await this.git(['merge-base', assertRef(ref1), assertRef(ref2)]);
     } catch {
       // Branches share no common ancestor (orphan) — fall back to the base ref
       // directly. `git diff <base>..<target>` works fine without shared history.
@@ -60,10 +221,15 @@ export class GitDiffEngine {
     }
   }
 
+  /** Resolve a ref to its full commit SHA */
+  async resolveRef(ref: string, token?: vscode.CancellationToken): Promise<string> {
+    return this.git(['rev-parse', '--verify', `${assertRef(ref)}^{commit}`], token);
+  }
+
   /** Check if a ref exists */
-  refExists(ref: string): boolean {
+  async refExists(ref: string): Promise<boolean> {
     try {
-      this.git(`rev-parse --verify ${ref}`);
+      await this.git(['rev-parse', '--verify', assertRef(ref)]);
       return true;
     } catch {
       return false;
@@ -71,181 +237,368 @@ export class GitDiffEngine {
   }
 
   /**
-   * Get the unified diff between the merge base and the target.
-   * @param selection Branch selection with base/target/mergeBase
-   * @param filePaths Optional: limit to specific files
+   * List the commits on the target that are not on the base, newest first.
+   * Feeds the commit picker for commit-range reviews.
    */
-  getDiff(selection: BranchSelection, filePaths?: string[]): string {
-    const mergeBase = selection.mergeBase || this.getMergeBase(selection.baseBranch, selection.targetBranch || 'HEAD');
-
-    let diffCmd: string;
+  async getCommits(mergeBase: string, targetRef: string, maxCount = 200): Promise<CommitInfo[]> {
+    const raw = await this.git([
+      'log', '-n', String(maxCount), '--format=%H%x1f%h%x1f%s%x1f%an%x1f%at',
+      `${assertRef(mergeBase)}..${assertRef(targetRef)}`,
+    ]);
+    return raw.split('\n').filter(Boolean).map(line => {
+      const [sha, shortSha, subject, author, time] = line.split('\x1f');
+      return { sha, shortSha, subject, author, timestamp: parseInt(time, 10) * 1000 };
+    });
+  }
 
-    if (!selection.targetBranch || selection.targetBranch === this.getCurrentBranch()) {
-      // Target is working tree: include uncommitted changes
-      if (selection.includeUncommitted) {
-        diffCmd = `diff ${mergeBase}`;
-      } else {
-        diffCmd = `diff ${mergeBase}..HEAD`;
-      }
-    } else {
-      // Target is a specific branch: committed diff only
-      diffCmd = `diff ${mergeBase}..${selection.targetBranch}`;
+  /**
+   * Resolve a commit spec to full SHAs, newest first.
+   * Accepts a range (`A..B`) or a single commit-ish.
+   */
+  async resolveCommits(spec: string): Promise<string[]> {
+    if (spec.includes('..')) {
+      const raw = await this.git(['rev-list', assertRef(spec)]);
+      return raw.split('\n').filter(Boolean);
     }
+    return [await this.resolveRef(spec)];
+  }
 
-    if (filePaths && filePaths.length > 0) {
-      diffCmd += ` -- ${filePaths.join(' ')}`;
+  /** Parent of a commit, or the empty tree for a root commit. */
+  private async parentOf(sha: string, token?: vscode.CancellationToken): Promise<string> {
+    try {
+      return await this.git(['rev-parse', '--verify', `${assertRef(sha)}^`], token);
+    } catch {
+      return EMPTY_TREE;
     }
-
-    return this.git(diffCmd);
   }
 
   /**
-   * Parse a unified diff string into structured DiffFile objects.
+   * The ref on the old side of the diff: the parent of the oldest selected
+   * commit in commit-range mode, HEAD for staged changes, the index for
+   * unstaged changes, otherwise the merge base.
    */
-  parseDiff(rawDiff: string, excludePaths: string[]): DiffFile[] {
-    const files: DiffFile[] = [];
-    // Split on "diff --git" boundaries
-    const fileDiffs = rawDiff.split(/^diff --git /m).filter(Boolean);
-
-    for (const fileDiff of fileDiffs) {
-      const lines = fileDiff.split('\n');
-      const headerLine = lines[0]; // a/path b/path
-
-      // Extract file path from "a/old b/new"
-      const match = headerLine.match(/a\/(.*?) b\/(.*)/);
-      if (!match) { continue; }
-
-      const filePath = match[2];
-
-      // Check exclusions
-      if (excludePaths.some(pattern => minimatch(filePath, pattern))) {
-        continue;
+  async getBaseRef(selection: BranchSelection, token?: vscode.CancellationToken): Promise<string> {
+    if (selection.commits && selection.commits.length > 0) {
+      return this.parentOf(selection.commits[selection.commits.length - 1], token);
+    }
+    if (selection.targetBranch === STAGED_TARGET) {
+      try {
+        return await this.resolveRef('HEAD', token);
+      } catch (err) {
+        if (err instanceof vscode.CancellationError) { throw err; }
+        return EMPTY_TREE; // nothing committed yet
       }
+    }
+    if (selection.targetBranch === UNSTAGED_TARGET) {
+      return INDEX_REF;
+    }
+    return selection.mergeBase || this.getMergeBase(selection.baseBranch, refForTarget(selection.targetBranch));
+  }
 
-      const isNew = fileDiff.includes('new file mode');
-      const isDeleted = fileDiff.includes('deleted file mode');
-      const isBinary = fileDiff.includes('Binary files');
-
-      if (isBinary) {
-        files.push({ path: filePath, hunks: [], isNew, isDeleted, isBinary: true });
-        continue;
+  /**
+   * Get the unified diff between the merge base and the target.
+   * @param selection Branch selection with base/target/mergeBase
+   * @param options Optional: file filter, whitespace and moved-code handling
+   */
+  async getDiff(selection: BranchSelection, options: DiffOptions = {}, token?: vscode.CancellationToken): Promise<string> {
+    // -M/-C: detect renames and copies so a moved file with small edits is
+    // reported as a rename with only the real edits, not a full delete + add.
+    // core.quotePath=false keeps non-ASCII paths unescaped in the headers.
+    const args = ['-c', 'core.quotePath=false'];
+    if (options.detectMovedCode) {
+      // Moved lines are only reported through colours: give them a colour of
+      // their own and switch every other one off. parseDiff (diffParser.ts) strips the escapes.
+      for (const slot of ['new', 'old', 'meta', 'frag', 'func', 'context', 'whitespace']) {
+        args.push('-c', `color.diff.${slot}=normal`);
       }
-
-      // Parse hunks
-      const hunks: DiffHunk[] = [];
-      let currentHunk: DiffHunk | null = null;
-      let lineContent: string[] = [];
-
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-
-        // Hunk header: @@ -old,count +new,count @@ optional context
-        const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)/);
-        if (hunkMatch) {
-          // Save previous hunk
-          if (currentHunk) {
-            currentHunk.content = lineContent.join('\n');
-            hunks.push(currentHunk);
-          }
-
-          const newStart = parseInt(hunkMatch[3], 10);
-          const newLines = parseInt(hunkMatch[4] || '1', 10);
-
-          currentHunk = {
-            file: filePath,
-            oldStart: parseInt(hunkMatch[1], 10),
-            oldLines: parseInt(hunkMatch[2] || '1', 10),
-            newStart,
-            newLines,
-            header: hunkMatch[5]?.trim() || '',
-            content: '',
-            addedLines: [],
-            removedLines: [],
-          };
-          lineContent = [line];
-
-          // Track added/removed line numbers
-          let newLineNum = newStart;
-          for (let j = i + 1; j < lines.length; j++) {
-            const dl = lines[j];
-            if (dl.startsWith('@@') || dl.startsWith('diff --git')) { break; }
-
-            if (dl.startsWith('+')) {
-              currentHunk.addedLines.push(newLineNum);
-              newLineNum++;
-            } else if (dl.startsWith('-')) {
-              currentHunk.removedLines.push(newLineNum);
-              // Don't increment newLineNum for removed lines
-            } else {
-              newLineNum++;
-            }
-          }
-          continue;
-        }
-
-        // Skip diff metadata lines (index, ---, +++)
-        if (line.startsWith('index ') || line.startsWith('--- ') || line.startsWith('+++ ') || line.startsWith('old mode') || line.startsWith('new mode') || line.startsWith('new file') || line.startsWith('deleted file')) {
-          continue;
-        }
-
-        if (currentHunk) {
-          lineContent.push(line);
-        }
+      args.push('-c', 'color.diff.newMoved=magenta', '-c', 'color.diff.oldMoved=magenta');
+    }
+    // --submodule=short keeps submodule changes as "Subproject commit" lines
+    // whatever diff.submodule is set to, so parseDiff can recognise them.
+    args.push('diff', '-M', '-C', '--submodule=short');
+    if (options.ignoreWhitespace) {
+      args.push('--ignore-all-space');
+    }
+    if (options.detectMovedCode) {
+      args.push('--color=always', '--color-moved=plain');
+      if (options.ignoreWhitespace) {
+        args.push('--color-moved-ws=ignore-all-space');
       }
-
-      // Save last hunk
-      if (currentHunk) {
-        currentHunk.content = lineContent.join('\n');
-        hunks.push(currentHunk);
+    }
+    const baseRef = await this.getBaseRef(selection, token);
+
+    if (selection.commits && selection.commits.length > 0) {
+      // Commit range: span from the parent of the oldest selected commit to the
+      // newest. Lines from unselected commits in between are filtered out later
+      // by attributeCommits().
+      args.push(baseRef, assertRef(selection.commits[0]));
+    } else if (selection.targetBranch === STAGED_TARGET) {
+      // Pre-commit: what `git commit` would record right now
+      args.push('--cached', baseRef);
+    } else if (selection.targetBranch === UNSTAGED_TARGET) {
+      // Plain `git diff` compares the working tree against the index
+    } else {
+      const mergeBase = baseRef;
+      if (!selection.targetBranch || selection.targetBranch === await this.getCurrentBranch()) {
+        // Target is working tree: include uncommitted changes
+        if (selection.includeUncommitted) {
+          args.push(assertRef(mergeBase));
+        } else {
+          args.push(`${assertRef(mergeBase)}..HEAD`);
+        }
+      } else {
+        // Target is a specific branch: committed diff only
+        args.push(`${assertRef(mergeBase)}..${assertRef(selection.targetBranch)}`);
       }
+    }
 
-      files.push({ path: filePath, hunks, isNew, isDeleted, isBinary: false });
+    args.push('--');
+    if (options.filePaths && options.filePaths.length > 0) {
+      args.push(...options.filePaths);
     }
 
-    return files;
+    return this.git(args, token);
   }
 
   /**
    * Read the full content of a file at the given ref (or from disk for working tree).
+   * Pass INDEX_REF to read the staged version.
    */
-  getFileContent(filePath: string, ref?: string): string | undefined {
+  async getFileContent(filePath: string, ref?: string, token?: vscode.CancellationToken): Promise<string | undefined> {
     try {
       if (!ref) {
         // Working tree: read from disk
-        const fullPath = path.join(this.cwd, filePath);
+        const fullPath = path.join(await this.worktreeRoot(), filePath);
         if (fs.existsSync(fullPath)) {
-          return fs.readFileSync(fullPath, 'utf-8');
+          return await fs.promises.readFile(fullPath, 'utf-8');
         }
         return undefined;
       }
-      return this.git(`show ${ref}:${filePath}`);
-    } catch {
+      return await this.git(['show', `${assertRef(ref)}:${filePath}`], token);
+    } catch (err) {
+      if (err instanceof vscode.CancellationError) { throw err; }
       return undefined;
     }
   }
 
+  /**
+   * Expand a submodule pointer change into the diff of the submodule's own
+   * commit range, with paths prefixed by the submodule path so they resolve
+   * from the superproject. File contents are read at the new commit.
+   * Returns an empty list when the submodule was added or removed, or is not
+   * checked out (its commits are then unavailable).
+   */
+  async expandSubmodule(
+    file: DiffFile,
+    excludePaths: string[],
+    token?: vscode.CancellationToken
+  ): Promise<DiffFile[]> {
+    const { oldCommit, newCommit } = file.submodule ?? {};
+    if (!oldCommit || !newCommit) { return []; }
+
+    const submodule = new GitDiffEngine(this.workspaceFolder, path.join(await this.worktreeRoot(), file.path));
+    let rawDiff: string;
+    try {
+      rawDiff = await submodule.git(
+        ['-c', 'core.quotePath=false', 'diff', '-M', '-C', '--submodule=short', `${assertRef(oldCommit)}..${assertRef(newCommit)}`, '--'],
+        token
+      );
+    } catch (err) {
+      if (err instanceof vscode.CancellationError) { throw err; }
+      return [];
+    }
+
+    const prefix = (p: string) => `${file.path}/${p}`;
+    const files = parseDiff(rawDiff, []);
+    const expanded: DiffFile[] = [];
+    for (const f of files) {
+      if (excludePaths.some(pattern => minimatch(prefix(f.path), pattern))) { continue; }
+      if (!f.isDeleted && !f.isBinary && !f.submodule) {
+        f.fullContent = await submodule.getFileContent(f.path, newCommit, token);
+      }
+      f.path = prefix(f.path);
+      if (f.oldPath) { f.oldPath = prefix(f.oldPath); }
+      for (const hunk of f.hunks) { hunk.file = f.path; }
+      expanded.push(f);
+    }
+    return expanded;
+  }
+
+  /**
+   * Find files that .gitattributes excludes from review: `linguist-generated`,
+   * `linguist-vendored` or the custom `copilot-review=skip`. Attributes are
+   * best effort; if git cannot read them, nothing is skipped.
+   * @returns Path → reason for each file to skip
+   */
+  async getAttributeSkips(filePaths: string[], token?: vscode.CancellationToken): Promise<Map<string, string>> {
+    const skips = new Map<string, string>();
+    // Batch the paths to stay well under the command-line length limit
+    for (let i = 0; i < filePaths.length; i += 200) {
+      let raw: string;
+      try {
+        raw = await this.git(['check-attr', '-z', ...SKIP_ATTRIBUTES, '--', ...filePaths.slice(i, i + 200)], token);
+      } catch (err) {
+        if (err instanceof vscode.CancellationError) { throw err; }
+        return skips;
+      }
+      // -z output: <path> NUL <attribute> NUL <value> NUL, repeated
+      const fields = raw.split('\0');
+      for (let j = 0; j + 2 < fields.length; j += 3) {
+        const reason = attributeSkipReason(fields[j + 1], fields[j + 2]);
+        if (reason && !skips.has(fields[j])) {
+          skips.set(fields[j], reason);
+        }
+      }
+    }
+    return skips;
+  }
+
   /**
    * Resolve full file contents for all diff files.
    * Uses the target ref or working tree depending on selection.
    */
-  resolveFileContents(files: DiffFile[], selection: BranchSelection): void {
+  async resolveFileContents(files: DiffFile[], selection: BranchSelection, token?: vscode.CancellationToken): Promise<void> {
+    let ref: string | undefined;
+    if (selection.commits && selection.commits.length > 0) {
+      ref = selection.commits[0];
+    } else if (selection.targetBranch === STAGED_TARGET) {
+      ref = INDEX_REF;
+    } else if (selection.targetBranch === UNSTAGED_TARGET) {
+      ref = undefined; // working tree
+    } else if (selection.targetBranch && selection.targetBranch !== await this.getCurrentBranch()) {
+      ref = selection.targetBranch;
+    } // else: working tree
+
+    for (const file of files) {
+      if (file.isDeleted || file.isBinary || file.submodule) { continue; }
+      file.fullContent = await this.getFileContent(file.path, ref, token);
+    }
+  }
+
+  /**
+   * Blame the added lines of each file at the newest selected commit and record
+   * which commit introduced each line. Added lines that came from commits
+   * outside the selection are demoted to context, and hunks left with no added
+   * lines are dropped.
+   */
+  async attributeCommits(files: DiffFile[], selection: BranchSelection, token?: vscode.CancellationToken): Promise<void> {
+    if (!selection.commits || selection.commits.length === 0) { return; }
+    const newest = selection.commits[0];
+    const selected = new Set(selection.commits);
+
     for (const file of files) {
-      if (file.isDeleted || file.isBinary) { continue; }
+      if (file.isDeleted || file.isBinary || file.hunks.length === 0) { continue; }
+
+      const added = file.hunks.flatMap(h => h.addedLines);
+      if (added.length === 0) { continue; }
+
+      const lineCommits = await this.blameLines(file.path, newest, added, token);
+      file.lineCommits = lineCommits;
+
+      file.hunks = file.hunks.filter(hunk => {
+        const hadAdded = hunk.addedLines.length > 0;
+        hunk.addedLines = hunk.addedLines.filter(line => selected.has(lineCommits[line]));
+        return !hadAdded || hunk.addedLines.length > 0;
+      });
+    }
+  }
+
+  /** Map each of the given 1-based lines of `filePath` at `ref` to the commit that last touched it. */
+  private async blameLines(filePath: string, ref: string, lines: number[], token?: vscode.CancellationToken): Promise<Record<number, string>> {
+    // Collapse the line list into contiguous -L ranges
+    const sorted = [...lines].sort((a, b) => a - b);
+    const ranges: Array<[number, number]> = [];
+    for (const line of sorted) {
+      const last = ranges[ranges.length - 1];
+      if (last && line <= last[1] + 1) {
+        last[1] = Math.max(last[1], line);
+      } else {
+        ranges.push([line, line]);
+      }
+    }
 
-      const ref = (!selection.targetBranch || selection.targetBranch === this.getCurrentBranch())
-        ? undefined // working tree
-        : selection.targetBranch;
+    const result: Record<number, string> = {};
+    let raw: string;
+    try {
+      const rangeArgs = ranges.flatMap(([start, end]) => ['-L', `${start},${end}`]);
+      raw = await this.git(['blame', '--porcelain', ...rangeArgs, assertRef(ref), '--', filePath], token);
+    } catch (err) {
+      if (err instanceof vscode.CancellationError) { throw err; }
+      return result;
+    }
 
-      file.fullContent = this.getFileContent(file.path, ref);
+    // Porcelain: each line group starts with "<sha> <orig-line> <final-line> [<count>]"
+    for (const line of raw.split('\n')) {
+      const m = line.match(/^([0-9a-f]{40}) \d+ (\d+)/);
+      if (m) {
+        result[parseInt(m[2], 10)] = m[1];
+      }
     }
+    return result;
   }
 }
 
+/**
+ * Hash each file's reviewed content so a later incremental review can tell
+ * which files changed. Falls back to the raw hunks for deleted files or files
+ * whose content could not be read.
+ */
+export function hashDiffFiles(files: DiffFile[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const file of files) {
+    const content = file.fullContent ?? file.hunks.map(h => h.content).join('\n');
+    hashes[file.path] = createHash('sha256').update(content).digest('hex').slice(0, 16);
+  }
+  return hashes;
+}
+
+/** Repository choice meaning "review every workspace folder together". */
+export const ALL_REPOSITORIES = '*';
+
+/** What the branch pickers need to list branches. */
+export type BranchSource = Pick<GitDiffEngine, 'getLocalBranches' | 'getRemoteBranches' | 'getCurrentBranch'>;
+
+/**
+ * Branch listing for reviewing several repositories together: only branches
+ * that exist in every repository are offered, and the current branch is
+ * reported as HEAD unless all repositories have the same one checked out.
+ */
+export function commonBranches(engines: GitDiffEngine[]): BranchSource {
+  const intersect = (lists: string[][]) => lists.reduce((acc, list) => acc.filter(b => list.includes(b)));
+  return {
+    getLocalBranches: async () => intersect(await Promise.all(engines.map(e => e.getLocalBranches()))),
+    getRemoteBranches: async () => intersect(await Promise.all(engines.map(e => e.getRemoteBranches()))),
+    getCurrentBranch: async () => {
+      const current = new Set(await Promise.all(engines.map(e => e.getCurrentBranch())));
+      return current.size === 1 ? [...current][0] : 'HEAD';
+    },
+  };
+}
+
+/**
+ * Prompt user to select the repository to review in a multi-root workspace.
+ * Returns the folder path, ALL_REPOSITORIES, or undefined if dismissed.
+ */
+export async function pickRepository(folders: readonly vscode.WorkspaceFolder[]): Promise<string | undefined> {
+  const items = [
+    ...folders.map(f => ({ label: f.name, description: f.uri.fsPath, repo: f.uri.fsPath })),
+    { label: 'All repositories', description: `${folders.length} workspace folders`, repo: ALL_REPOSITORIES },
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select repository to review',
+    title: 'Copilot Review Agent — Repository',
+    matchOnDescription: true,
+  });
+
+  return picked?.repo;
+}
+
 /** Prompt user to select a base branch */
-export async function pickBaseBranch(engine: GitDiffEngine, defaultBranch: string): Promise<string | undefined> {
-  const locals = engine.getLocalBranches();
-  const remotes = engine.getRemoteBranches().filter(b => !locals.includes(b));
-  const current = engine.getCurrentBranch();
+export async function pickBaseBranch(engine: BranchSource, defaultBranch: string): Promise<string | undefined> {
+  const locals = await engine.getLocalBranches();
+  const remotes = (await engine.getRemoteBranches()).filter(b => !locals.includes(b));
+  const current = await engine.getCurrentBranch();
 
   const items: vscode.QuickPickItem[] = [];
 
@@ -285,9 +638,41 @@ export async function pickBaseBranch(engine: GitDiffEngine, defaultBranch: strin
   return picked?.label;
 }
 
+/**
+ * Prompt user to select commits to review. Returns full SHAs newest first,
+ * or undefined if the picker was dismissed.
+ */
+export async function pickCommits(engine: GitDiffEngine, mergeBase: string, targetRef: string): Promise<string[] | undefined> {
+  const commits = await engine.getCommits(mergeBase, targetRef);
+  if (commits.length === 0) {
+    vscode.window.showInformationMessage(`Copilot Review Agent: No commits on "${targetRef}" since the merge base.`);
+    return undefined;
+  }
+
+  const items = commits.map(c => ({
+    label: `${c.shortSha} ${c.subject}`,
+    description: c.author,
+    detail: new Date(c.timestamp).toLocaleString(),
+    sha: c.sha,
+  }));
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select commits to review',
+    title: 'Copilot Review Agent — Commits',
+    canPickMany: true,
+    matchOnDescription: true,
+  });
+
+  if (!picked || picked.length === 0) { return undefined; }
+
+  // Keep git log order (newest first) regardless of pick order
+  const pickedShas = new Set(picked.map(p => p.sha));
+  return commits.filter(c => pickedShas.has(c.sha)).map(c => c.sha);
+}
+
 /** Prompt user to select a target branch */
-export async function pickTargetBranch(engine: GitDiffEngine): Promise<string | undefined> {
-  const current = engine.getCurrentBranch();
+export async function pickTargetBranch(engine: BranchSource): Promise<string | undefined> {
+  const current = await engine.getCurrentBranch();
 
   const items: vscode.QuickPickItem[] = [
     {
@@ -298,10 +683,18 @@ export async function pickTargetBranch(engine: GitDiffEngine): Promise<string |
       label: current,
       description: '(committed changes only)',
     },
+    {
+      label: 'Staged changes',
+      description: '(index only — what the next commit will contain)',
+    },
+    {
+      label: 'Unstaged changes',
+      description: '(working tree changes not yet staged)',
+    },
   ];
 
   // Other local branches
-  const locals = engine.getLocalBranches();
+  const locals = await engine.getLocalBranches();
   for (const b of locals) {
     if (b === current) { continue; }
     items.push({ label: b });
@@ -318,6 +711,12 @@ export async function pickTargetBranch(engine: GitDiffEngine): Promise<string |
   if (picked.label === `${current} + working tree`) {
     return ''; // empty = working tree
   }
+  if (picked.label === 'Staged changes') {
+    return STAGED_TARGET;
+  }
+  if (picked.label === 'Unstaged changes') {
+    return UNSTAGED_TARGET;
+  }
 
   return picked.label;
 }
@@ -0,0 +1,85 @@
+/**
+ * Incremental parser for a streamed JSON array of objects. Feed it response
+ * fragments as they arrive and it returns each top-level object as soon as
+ * its closing brace is seen, so findings can be shown before the model has
+ * finished. Text before the array (prose, a markdown fence) is skipped, and
+ * an element that fails to parse is dropped without affecting the rest.
+ */
+export class JsonArrayStreamParser {
+  private state: 'before' | 'array' | 'done' = 'before';
+  /** Nesting depth inside the array: 0 between elements. */
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  /** Text of the element being read. */
+  private element = '';
+  /** Elements read from the current array, parsed or not. */
+  private elements = 0;
+  private skipped = 0;
+
+  /** Elements that were not valid JSON objects. */
+  get malformed(): number {
+    return this.skipped;
+  }
+
+  /** Consume a fragment and return the objects it completed. */
+  push(fragment: string): unknown[] {
+    const completed: unknown[] = [];
+    for (const ch of fragment) {
+      if (this.state === 'done') { break; }
+      if (this.state === 'before') {
+        if (ch === '[') { this.state = 'array'; }
+        continue;
+      }
+
+      if (this.depth > 0) { this.element += ch; }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === '\\') {
+          this.escaped = true;
+        } else if (ch === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{' || ch === '[') {
+        if (this.depth === 0) { this.element = ch; }
+        this.depth++;
+      } else if (ch === '}' || ch === ']') {
+        if (this.depth === 0) {
+          // `]` between elements closes the array. One that held no elements
+          // was likely a bracket in prose before the JSON: keep looking.
+          if (ch === ']') { this.state = this.elements > 0 ? 'done' : 'before'; }
+          continue;
+        }
+        this.depth--;
+        if (this.depth === 0) {
+          this.elements++;
+          const parsed = parseElement(this.element);
+          if (parsed !== undefined) {
+            completed.push(parsed);
+          } else {
+            this.skipped++;
+          }
+          this.element = '';
+        }
+      }
+    }
+    return completed;
+  }
+}
+
+/** A completed array element, or undefined when it is not a JSON object. */
+function parseElement(text: string): unknown {
+  try {
+    const value: unknown = JSON.parse(text);
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
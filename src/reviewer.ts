@@ -1,6 +1,122 @@
 import * as vscode from 'vscode';
-import { DiffChunk, ReviewFinding, CopilotReviewAgentConfig, Severity, Category, nextFindingId, severityRank } from './types';
-import { buildChunkContext } from './chunker';
+import { DiffChunk, DiffFile, FindingVerification, ReviewFinding, CopilotReviewAgentConfig } from './types';
+import { meetsMinConfidence, severityRank, validateFinding } from './findings';
+import { buildChunkContext, isMoveOnlyFinding, placeFinding, TokenBudget } from './chunker';
+import { JsonArrayStreamParser } from './jsonStream';
+
+/** Assistant turn that acknowledges the review instructions. */
+const REVIEW_ACKNOWLEDGEMENT = 'Understood. I will review the code changes following these instructions and respond with only a JSON array of findings.';
+/** Text placed before the chunk context in the review request. */
+const REVIEW_REQUEST_PREFIX = 'Review the following code changes:\n\n';
+/** Tokens held back for the model's JSON response (capped at a quarter of the window). */
+const OUTPUT_RESERVE_TOKENS = 4_096;
+/** Instructions for the second pass that re-checks a single finding. */
+const VERIFY_INSTRUCTIONS = `You are verifying a finding from an automated code review. Code reviews by language models often report problems that are not there: misread code, issues handled elsewhere in the shown code, or speculation.
+
+## Instructions
+- Read the code shown. Lines marked + were added and lines marked - were removed.
+- Decide whether the finding describes a real problem in this code.
+- Answer "confirmed" when the code shown has the problem, and "refuted" when it does not or the finding rests on assumptions the code contradicts.
+- Respond with ONLY a JSON object, no markdown fences: {"verdict": "confirmed" | "refuted", "reasoning": "One or two sentences explaining why."}`;
+/** Follow-up request when a review response holds no parseable JSON array. */
+const REPAIR_REQUEST = 'That response was not a valid JSON array. Re-emit the same findings as ONLY a valid JSON array in the format given in the instructions, with no markdown fences or text before or after it. If there are no findings, respond with: []';
+/** Attempts per request when the model is rate limited or the network fails. */
+const MAX_REQUEST_ATTEMPTS = 4;
+/** Backoff before the first retry; doubles with each attempt up to RETRY_MAX_DELAY_MS. */
+const RETRY_BASE_DELAY_MS = 2_000;
+const RETRY_MAX_DELAY_MS = 30_000;
+/** Error messages of a rate limit, which clears after a short wait. */
+const RATE_LIMIT_ERROR = /rate.?limit|too many requests|\b429\b/i;
+/** Error messages of transient failures that carry no LanguageModelError code. */
+const TRANSIENT_ERROR = /\b(502|503|504)\b|timed? ?out|ECONN(RESET|REFUSED|ABORTED)|ETIMEDOUT|EAI_AGAIN|socket hang up|network error|fetch failed|overloaded|temporarily unavailable/i;
+
+/**
+ * How a failed model request is handled: `stale-model` re-selects the model
+ * and retries at once, `retryable` backs off and retries, `fatal` fails.
+ */
+type RequestErrorKind = 'stale-model' | 'retryable' | 'fatal';
+
+function classifyRequestError(err: unknown): RequestErrorKind {
+  if (err instanceof vscode.CancellationError) { return 'fatal'; }
+  const e = err as { code?: unknown; name?: unknown; message?: unknown } | undefined;
+  // Check multiple error properties for compatibility across API versions:
+  // - err.code: primary indicator (e.g., 'model-not-found')
+  // - err.name: alternative error classification
+  if (e?.code === 'model-not-found' || e?.name === 'ModelNotFoundError' || e?.code === vscode.LanguageModelError.NotFound.name) {
+    return 'stale-model';
+  }
+  // The user declined access to the model: retrying cannot help
+  if (e?.code === vscode.LanguageModelError.NoPermissions.name) { return 'fatal'; }
+  const message = typeof e?.message === 'string' ? e.message : '';
+  // Blocked covers rate limits but also exceeded quotas and blocked requests,
+  // which a retry within a minute cannot clear
+  if (e?.code === vscode.LanguageModelError.Blocked.name) {
+    return RATE_LIMIT_ERROR.test(message) ? 'retryable' : 'fatal';
+  }
+  return RATE_LIMIT_ERROR.test(message) || TRANSIENT_ERROR.test(message) ? 'retryable' : 'fatal';
+}
+
+/**
+ * Carry rename and commit info onto a finding so the task list can show
+ * "old → new" and commit-range reviews know which commit to blame.
+ */
+function annotateFinding(finding: ReviewFinding, file: DiffFile | undefined): void {
+  if (file?.isRenamed && file.oldPath) {
+    finding.oldFile = file.oldPath;
+  }
+  if (file?.lineCommits && finding.side !== 'old') {
+    for (let line = finding.startLine; line <= finding.endLine; line++) {
+      if (file.lineCommits[line]) {
+        finding.commit = file.lineCommits[line];
+        break;
+      }
+    }
+  }
+}
+
+/** Resolve after `ms`, or reject with a CancellationError as soon as `token` is cancelled. */
+function delay(ms: number, token: vscode.CancellationToken): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      listener.dispose();
+      resolve();
+    }, ms);
+    const listener = token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      listener.dispose();
+      reject(new vscode.CancellationError());
+    });
+  });
+}
+
+/** Findings of one chunk, with the raw findings that failed validation. */
+export interface ChunkReview {
+  findings: ReviewFinding[];
+  /** Count of findings dropped by the output schema or line checks, by reason. */
+  dropped: Record<string, number>;
+  /** Findings whose lines were moved onto the diff's changed lines. */
+  snapped: number;
+  /** Whether the findings came from a repair request after the response failed to parse. */
+  repaired: boolean;
+}
+
+/** A backoff wait before retrying a failed request, reported to the caller. */
+export interface RetryWait {
+  /** The attempt about to be made (2 for the first retry). */
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  /** Message of the error that caused the retry. */
+  reason: string;
+}
+
+/** Told about the retries of a failed request. */
+export interface RetryListener {
+  /** Before each backoff wait. */
+  onRetry(wait: RetryWait): void;
+  /** When the retried request is sent, once the wait is over. */
+  onRetryStart?(wait: RetryWait): void;
+}
 
 /**
  * AI-powered code review engine using the VS Code Language Model API.
@@ -73,35 +189,62 @@ export class ReviewEngine {
   }
 
   /**
-   * Send a request to the model, retrying once with a fresh model if the
-   * cached reference has become stale (session expired, model uninstalled, etc.).
+   * Token budget for the diff context of one review request with the selected
+   * model: its input window, minus the system prompt and the fixed messages
+   * around the chunk, minus room for the response. Tokens are counted with
+   * the model's own tokenizer.
+   */
+  async getTokenBudget(config: CopilotReviewAgentConfig, token: vscode.CancellationToken): Promise<TokenBudget> {
+    const model = await this.ensureModel();
+    const countTokens = async (text: string) => model.countTokens(text, token);
+    const overhead = await countTokens(this.buildSystemPrompt(config))
+      + await countTokens(REVIEW_ACKNOWLEDGEMENT)
+      + await countTokens(REVIEW_REQUEST_PREFIX);
+    const outputReserve = Math.min(OUTPUT_RESERVE_TOKENS, Math.floor(model.maxInputTokens / 4));
+    return {
+      maxTokens: Math.max(1, model.maxInputTokens - overhead - outputReserve),
+      countTokens,
+    };
+  }
+
+  /**
+   * Send a request to the model. A stale model reference (session expired,
+   * model uninstalled, etc.) is retried once with a freshly selected model.
+   * Rate limits and transient network failures are retried up to
+   * MAX_REQUEST_ATTEMPTS times with exponential backoff and jitter; `retry`
+   * is told about each wait and each retried attempt. Permission errors and cancellations are not retried.
    */
   private async sendRequestWithRetry(
     messages: vscode.LanguageModelChatMessage[],
     options: vscode.LanguageModelChatRequestOptions,
-    token: vscode.CancellationToken
+    token: vscode.CancellationToken,
+    retry?: RetryListener
   ): Promise<vscode.LanguageModelChatResponse> {
-    const model = await this.ensureModel();
-    try {
-      return await model.sendRequest(messages, options, token);
-    } catch (err: any) {
-      // Only retry on errors that suggest a stale model reference (e.g. session
-      // expired, model uninstalled). Do NOT retry cancellations or quota/rate-limit
-      // errors — those would silently re-execute a full LLM call at extra cost.
-      // Check multiple error properties for compatibility across API versions:
-      // - err.code: primary indicator (e.g., 'model-not-found')
-      // - err.name: alternative error classification
-      // Note: other transient failures (network, auth token expiration) are not
-      // currently retried; consider adding more error codes if needed.
-      const isStale = (
-        err?.code === 'model-not-found' ||
-        err?.name === 'ModelNotFoundError'
-      );
-      if (!isStale || token.isCancellationRequested) { throw err; }
-      console.warn('Copilot Review Agent: Model reference stale, retrying with fresh model', err?.code || err?.name);
-      this.model = undefined;
-      const freshModel = await this.ensureModel();
-      return await freshModel.sendRequest(messages, options, token);
+    let refreshedModel = false;
+    for (let attempt = 1; ; attempt++) {
+      const model = await this.ensureModel();
+      try {
+        return await model.sendRequest(messages, options, token);
+      } catch (err: any) {
+        if (token.isCancellationRequested) { throw err; }
+        const kind = classifyRequestError(err);
+        if (kind === 'stale-model' && !refreshedModel) {
+          console.warn('Copilot Review Agent: Model reference stale, retrying with fresh model', err?.code || err?.name);
+          refreshedModel = true;
+          this.model = undefined;
+          attempt--; // a fresh model is not a backoff attempt
+          continue;
+        }
+        if (kind !== 'retryable' || attempt >= MAX_REQUEST_ATTEMPTS) { throw err; }
+
+        const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        const delayMs = Math.round(backoff / 2 + Math.random() * backoff / 2);
+        const reason = err instanceof Error ? err.message : String(err);
+        const wait = { attempt: attempt + 1, maxAttempts: MAX_REQUEST_ATTEMPTS, delayMs, reason };
+        retry?.onRetry(wait);
+        await delay(delayMs, token);
+        retry?.onRetryStart?.(wait);
+      }
     }
   }
 
@@ -127,7 +270,13 @@ Review for these categories: ${categories}
 Only report findings at severity "${severity}" or above.
 
 ## Rules
-- Focus on the CHANGED lines (marked with +). Do not review unchanged context.
+- Focus on the CHANGED lines (marked with + or -). Do not review unchanged context.
+- Lines marked - were removed; their numbers are line numbers in the OLD version of the file. To report a problem caused by removed code (e.g. a deleted null check or auth guard), use those old line numbers and add "side": "old" to the finding. Otherwise omit "side".
+- Files marked "(renamed from …)" or "(copied from …)" were moved by git; only the lines marked + are edits. Do not report the move itself.
+- A file marked "(part N of M)" was too large for one request and is split by hunk; review the hunks shown and do not report the other parts as missing.
+- Lines marked > were moved unchanged from elsewhere in the diff, and lines marked < were moved away. They are not new code: only report them when a change around them makes them wrong.
+- A file marked "(focus: …)" matters most for the categories listed; review it mainly for those.
+- "Referenced definitions" list the signatures and doc comments of functions the changed code calls. They are unchanged code shown for context: use them to check how the changed code calls them, but do not report findings on them.
 - Be specific: reference exact file paths and line numbers from the diff.
 - Each finding must have a concrete suggested fix.
 - Do NOT report: formatting issues, trailing whitespace, missing comments on obvious code.
@@ -145,9 +294,12 @@ Respond with ONLY a JSON array (no markdown fences, no explanation before/after)
   "title": "Short title of the issue",
   "description": "Detailed explanation of why this is a problem and its impact.",
   "suggestedFix": "Code or description of how to fix it.",
-  "category": "correctness"
+  "category": "correctness",
+  "confidence": 0.9
 }
 
+"confidence" is how sure you are that the issue is real, from 0 to 1: near 1 for a definite bug the code shows, lower for issues that depend on code or usage you cannot see. "severity" must be one of the levels above and "category" one of: ${categories}, other. "startLine" and "endLine" are integers with endLine >= startLine. Findings that do not follow this format are discarded.
+
 If there are no findings, respond with: []`;
 
     if (config.customInstructions) {
@@ -159,14 +311,18 @@ If there are no findings, respond with: []`;
 
   /**
    * Review a single chunk of diff files.
-   * @param onToken Optional callback invoked with each streamed token fragment
+   * @param onFinding Optional callback invoked with each finding as soon as
+   *   the model has streamed it in full
+   * @param retry Optional listener told before each backoff wait and when the
+   *   retried request is sent
    */
   async reviewChunk(
     chunk: DiffChunk,
     config: CopilotReviewAgentConfig,
     token: vscode.CancellationToken,
-    onToken?: (fragment: string) => void
-  ): Promise<ReviewFinding[]> {
+    onFinding?: (finding: ReviewFinding) => void,
+    retry?: RetryListener
+  ): Promise<ChunkReview> {
     const systemPrompt = this.buildSystemPrompt(config);
     const chunkContext = buildChunkContext(chunk, config);
 
@@ -177,31 +333,113 @@ If there are no findings, respond with: []`;
     // model understands the instructions while maintaining compatibility.
     const messages = [
       vscode.LanguageModelChatMessage.User(systemPrompt),
-      vscode.LanguageModelChatMessage.Assistant('Understood. I will review the code changes following these instructions and respond with only a JSON array of findings.'),
-      vscode.LanguageModelChatMessage.User(`Review the following code changes:\n\n${chunkContext}`),
+      vscode.LanguageModelChatMessage.Assistant(REVIEW_ACKNOWLEDGEMENT),
+      vscode.LanguageModelChatMessage.User(`${REVIEW_REQUEST_PREFIX}${chunkContext}`),
     ];
 
     const response = await this.sendRequestWithRetry(messages, {
       justification: 'Copilot Review Agent: Analyzing branch diff for code issues',
-    }, token);
+    }, token, retry);
 
-    // Collect the full streamed response, forwarding tokens to caller
+    const result: ChunkReview = { findings: [], dropped: {}, snapped: 0, repaired: false };
+    const threshold = severityRank(config.severityThreshold);
+    const drop = (reason: string, count = 1) => {
+      if (count > 0) { result.dropped[reason] = (result.dropped[reason] ?? 0) + count; }
+    };
+    const accept = (raw: unknown) => {
+      const finding = validateFinding(raw);
+      if (typeof finding === 'string') {
+        drop(finding);
+        return;
+      }
+      if (severityRank(finding.severity) < threshold || result.findings.length >= config.maxFindings) { return; }
+      if (!meetsMinConfidence(finding, config.minConfidence)) { return; }
+      const file = chunk.files.find(f => f.path === finding.file);
+      // The model's line numbers are checked against the diff it was shown
+      const placement = placeFinding(file, finding);
+      if (placement.kind === 'dropped') {
+        drop(placement.reason);
+        return;
+      }
+      if (placement.kind === 'snapped') {
+        finding.startLine = placement.startLine;
+        finding.endLine = placement.endLine;
+        result.snapped++;
+      }
+      // Drop findings on blocks that only moved: that code did not change
+      if (file && isMoveOnlyFinding(file, finding)) { return; }
+      annotateFinding(finding, file);
+      result.findings.push(finding);
+      if (onFinding) { onFinding(finding); }
+    };
+
+    // Parse findings out of the stream as each object completes
+    const parser = new JsonArrayStreamParser();
+    let streamedObjects = 0;
     let fullText = '';
     for await (const fragment of response.text) {
       if (token.isCancellationRequested) { break; }
       fullText += fragment;
-      if (onToken) { onToken(fragment); }
+      for (const raw of parser.push(fragment)) {
+        streamedObjects++;
+        accept(raw);
+      }
     }
 
-    if (token.isCancellationRequested) { return []; }
+    if (token.isCancellationRequested) { return { findings: [], dropped: {}, snapped: 0, repaired: false }; }
+
+    if (streamedObjects > 0) {
+      drop('malformed JSON', parser.malformed);
+      return result;
+    }
 
-    return this.parseFindings(fullText, config);
+    // The stream parser only reads a plain array of objects; anything else
+    // gets the whole-response parse, then one request to re-emit valid JSON.
+    let rawFindings = this.parseFindings(fullText);
+    if (!rawFindings) {
+      const repairText = await this.requestRepair(messages, fullText, token, retry);
+      if (token.isCancellationRequested) { return { findings: [], dropped: {}, snapped: 0, repaired: false }; }
+      rawFindings = this.parseFindings(repairText);
+      result.repaired = rawFindings !== undefined;
+    }
+    if (!rawFindings) {
+      vscode.window.showWarningMessage('Copilot Review Agent: Failed to parse AI response, even after asking the model to repair it.');
+      return result;
+    }
+    for (const raw of rawFindings) { accept(raw); }
+    return result;
   }
 
   /**
-   * Parse the AI response into ReviewFinding objects.
+   * Ask the model to re-emit its unparseable response as a valid JSON array.
    */
-  private parseFindings(responseText: string, config: CopilotReviewAgentConfig): ReviewFinding[] {
+  private async requestRepair(
+    messages: vscode.LanguageModelChatMessage[],
+    invalidResponse: string,
+    token: vscode.CancellationToken,
+    retry?: RetryListener
+  ): Promise<string> {
+    const response = await this.sendRequestWithRetry([
+      ...messages,
+      vscode.LanguageModelChatMessage.Assistant(invalidResponse),
+      vscode.LanguageModelChatMessage.User(REPAIR_REQUEST),
+    ], {
+      justification: 'Copilot Review Agent: Repairing a malformed review response',
+    }, token, retry);
+
+    let text = '';
+    for await (const fragment of response.text) {
+      if (token.isCancellationRequested) { break; }
+      text += fragment;
+    }
+    return text;
+  }
+
+  /**
+   * Parse the AI response into its array of raw findings, or undefined when
+   * it holds no JSON array.
+   */
+  private parseFindings(responseText: string): unknown[] | undefined {
     // Strip markdown fences if the model wrapped the JSON
     let cleaned = responseText.trim();
     if (cleaned.startsWith('```json')) {
@@ -217,61 +455,74 @@ If there are no findings, respond with: []`;
     // First, try to parse the cleaned text directly as JSON.
     // Fall back to a bracket-search heuristic only if that fails, to avoid
     // incorrectly slicing strings that contain nested arrays or trailing text.
-    let rawFindings: Array<{
-      file?: string;
-      startLine?: number;
-      endLine?: number;
-      severity?: string;
-      title?: string;
-      description?: string;
-      suggestedFix?: string;
-      category?: string;
-    }>;
-
     try {
-      const direct = JSON.parse(cleaned);
-      if (Array.isArray(direct)) {
-        rawFindings = direct;
-      } else {
-        return [];
-      }
+      const direct: unknown = JSON.parse(cleaned);
+      return Array.isArray(direct) ? direct : undefined;
     } catch {
       // Direct parse failed — try to extract the outermost JSON array via bracket search
       const arrayStart = cleaned.indexOf('[');
       const arrayEnd = cleaned.lastIndexOf(']');
       if (arrayStart === -1 || arrayEnd === -1) {
-        return [];
+        return undefined;
       }
       try {
-        const extracted = JSON.parse(cleaned.slice(arrayStart, arrayEnd + 1));
-        if (!Array.isArray(extracted)) { return []; }
-        rawFindings = extracted;
-      } catch (err) {
-        vscode.window.showWarningMessage(`Copilot Review Agent: Failed to parse AI response: ${err}`);
-        return [];
+        const extracted: unknown = JSON.parse(cleaned.slice(arrayStart, arrayEnd + 1));
+        return Array.isArray(extracted) ? extracted : undefined;
+      } catch {
+        return undefined;
       }
     }
+  }
 
-    const threshold = severityRank(config.severityThreshold);
-    const validSeverities = new Set<string>(['blocker', 'high', 'medium', 'low', 'nit']);
-
-    return rawFindings
-      .filter(f => f.file && f.startLine != null && f.title)
-      .filter(f => validSeverities.has(f.severity || 'low'))
-      .filter(f => severityRank((f.severity || 'low') as Severity) >= threshold)
-      .slice(0, config.maxFindings)
-      .map(f => ({
-        id: nextFindingId(),
-        file: f.file!,
-        startLine: f.startLine!,
-        endLine: f.endLine || f.startLine!,
-        severity: (f.severity || 'medium') as Severity,
-        title: f.title!,
-        description: f.description || '',
-        suggestedFix: f.suggestedFix,
-        category: (f.category || 'other') as Category,
-        status: 'open' as const,
-      }));
+  /**
+   * Ask the model to confirm or refute a finding against a focused window of
+   * the code it points at. Returns undefined when the reply has no verdict.
+   */
+  async verifyFinding(
+    finding: ReviewFinding,
+    codeContext: string,
+    token: vscode.CancellationToken,
+    retry?: RetryListener
+  ): Promise<FindingVerification | undefined> {
+    const side = finding.side === 'old' ? ' (removed lines, numbered in the old file)' : '';
+    const messages = [
+      vscode.LanguageModelChatMessage.User(VERIFY_INSTRUCTIONS),
+      vscode.LanguageModelChatMessage.Assistant('Understood. I will check the finding against the code and respond with only the JSON verdict.'),
+      vscode.LanguageModelChatMessage.User(
+        `## Finding
+- File: ${finding.file}
+- Lines: ${finding.startLine}-${finding.endLine}${side}
+- Severity: ${finding.severity}
+- Category: ${finding.category}
+- Issue: ${finding.title}
+- Description: ${finding.description}
+
+## Code
+${codeContext}`
+      ),
+    ];
+
+    const response = await this.sendRequestWithRetry(messages, {
+      justification: 'Copilot Review Agent: Verifying a review finding',
+    }, token, retry);
+
+    let text = '';
+    for await (const fragment of response.text) {
+      if (token.isCancellationRequested) { return undefined; }
+      text += fragment;
+    }
+
+    // Take the outermost object, whatever the model wrapped it in
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end < start) { return undefined; }
+    try {
+      const parsed = JSON.parse(text.slice(start, end + 1)) as { verdict?: unknown; reasoning?: unknown };
+      if (parsed.verdict !== 'confirmed' && parsed.verdict !== 'refuted') { return undefined; }
+      return { verdict: parsed.verdict, reasoning: typeof parsed.reasoning === 'string' ? parsed.reasoning : '' };
+    } catch {
+      return undefined;
+    }
   }
 
   /**
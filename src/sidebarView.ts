@@ -1,6 +1,6 @@
 import * as crypto from 'crypto';
 import * as vscode from 'vscode';
-import { ReviewSession } from './types';
+import { ReviewSession, CommitInfo } from './types';
 
 // ────────────────────────────────────────────────
 // Message types
@@ -9,21 +9,23 @@ import { ReviewSession } from './types';
 /** Extension → Webview */
 export interface WebviewMessage {
   type:
+    | 'setRepositories'
     | 'setBranches'
     | 'setSelectedBranches'
+    | 'setCommits'
     | 'setModels'
     | 'setReviewState'
     | 'addTask'
     | 'updateTask'
     | 'addSubStep'
     | 'updateSubStep'
-    | 'streamToken'
     | 'setReviewSummary'
     | 'resetReview'
     | 'setHistory'
     | 'showReviewDetail'
     | 'showHistoryList'
-    | 'setInstructionsStatus';
+    | 'setInstructionsStatus'
+    | 'setResumableChunks';
   payload?: unknown;
 }
 
@@ -33,10 +35,15 @@ export interface ExtensionMessage {
     | 'runReview'
     | 'stopReview'
     | 'clearReview'
+    | 'reviewIncremental'
+    | 'retryFailedChunks'
+    | 'continueReview'
     | 'exportMarkdown'
     | 'refreshBranches'
+    | 'selectRepository'
     | 'setBaseBranch'
     | 'setTargetBranch'
+    | 'loadCommits'
     | 'setModel'
     | 'ready'
     | 'loadHistory'
@@ -172,12 +179,18 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider, vscode.D
 
   // ── Convenience helpers ──
 
+  setRepositories(repos: { root: string; name: string }[], selected: string): void {
+    this.postMessage({ type: 'setRepositories', payload: { repos, selected } });
+  }
   setBranches(locals: string[], remotes: string[], currentBranch: string): void {
     this.postMessage({ type: 'setBranches', payload: { locals, remotes, currentBranch } });
   }
   setSelectedBranches(baseBranch: string, targetBranch: string): void {
     this.postMessage({ type: 'setSelectedBranches', payload: { baseBranch, targetBranch } });
   }
+  setCommits(commits: CommitInfo[]): void {
+    this.postMessage({ type: 'setCommits', payload: commits });
+  }
   setModels(models: { id: string; label: string }[], selectedId?: string): void {
     this.postMessage({ type: 'setModels', payload: { models, selectedId } });
   }
@@ -196,9 +209,6 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider, vscode.D
   updateSubStep(step: Partial<AgentSubStep> & { taskId: string; id: string }): void {
     this.postMessage({ type: 'updateSubStep', payload: step });
   }
-  streamToken(taskId: string, subStepId: string, token: string): void {
-    this.postMessage({ type: 'streamToken', payload: { taskId, subStepId, token } });
-  }
   private legacyIdCounter = 0;
   /** Legacy compat for history replays */
   addAgentStep(step: AgentStep): void {
@@ -224,6 +234,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider, vscode.D
       totalFindings: s.summary?.totalFindings ?? s.findings.length,
       openCount: s.summary?.openCount ?? s.findings.filter(f => f.status === 'open').length,
       fileCount: s.summary?.fileCount ?? new Set(s.findings.map(f => f.file)).size,
+      commitCount: s.commits?.length,
     }));
     this.postMessage({ type: 'setHistory', payload: items });
   }
@@ -236,6 +247,7 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider, vscode.D
         timestamp: session.timestamp,
         baseBranch: session.baseBranch,
         targetBranch: session.targetBranch,
+        commitCount: session.commits?.length,
         agentSteps: session.agentSteps,
         summary: session.summary,
       },
@@ -250,6 +262,10 @@ export class SidebarViewProvider implements vscode.WebviewViewProvider, vscode.D
   setInstructionsStatus(exists: boolean, path?: string): void {
     this.postMessage({ type: 'setInstructionsStatus', payload: { exists, path } });
   }
+  /** Show or hide the "Retry Failed" and "Continue Review" actions for the review on screen. */
+  setResumableChunks(failed: number, remaining: number): void {
+    this.postMessage({ type: 'setResumableChunks', payload: { failed, remaining } });
+  }
 
   // ────────────────────────────────────────────────
   // HTML
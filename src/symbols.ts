@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import { DiffFile, ReferencedDefinition } from './types';
+import { TokenBudget } from './chunker';
+
+/** Symbol kinds that make a useful unit of context around a change. */
+const ENCLOSING_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Struct,
+  vscode.SymbolKind.Enum,
+]);
+
+/**
+ * Tokens of extra context a file may gain from enclosing symbols, on top of
+ * the `contextLines` window, so that one huge class cannot eat the budget.
+ */
+const MAX_SYMBOL_CONTEXT_TOKENS = 2_000;
+
+/** 0-based, end-inclusive line range of a symbol. */
+interface SymbolRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Open the document a diff file was read from, or undefined when it is missing
+ * or its content differs from what is reviewed (another ref, unsaved edits),
+ * since language-feature positions would then not match the diff's lines.
+ */
+async function openReviewedDocument(
+  file: DiffFile,
+  resolvePath: (filePath: string) => Promise<string>
+): Promise<vscode.TextDocument | undefined> {
+  if (!file.fullContent || file.isDeleted || file.isBinary) { return undefined; }
+  try {
+    const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(await resolvePath(file.path)));
+    return doc.getText().trimEnd() === file.fullContent.trimEnd() ? doc : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Flatten what the document symbol provider returned. Providers answer with
+ * either a DocumentSymbol tree or a flat SymbolInformation list.
+ */
+function collectRanges(symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation>, out: SymbolRange[] = []): SymbolRange[] {
+  for (const symbol of symbols) {
+    if ('children' in symbol) {
+      if (ENCLOSING_KINDS.has(symbol.kind)) {
+        out.push({ start: symbol.range.start.line, end: symbol.range.end.line });
+      }
+      collectRanges(symbol.children, out);
+    } else if (ENCLOSING_KINDS.has(symbol.kind)) {
+      out.push({ start: symbol.location.range.start.line, end: symbol.location.range.end.line });
+    }
+  }
+  return out;
+}
+
+/**
+ * Widen each hunk's context to the innermost function or class enclosing it,
+ * as reported by the language's document symbol provider. Sets
+ * `DiffHunk.enclosingRange`, which `buildFileContext` then includes in full.
+ *
+ * Symbols are only looked up when the reviewed content matches the document
+ * on disk (line numbers would not line up otherwise); files in languages with
+ * no symbol provider keep the plain `contextLines` window. Hunks are widened in
+ * order until the file's extra context reaches MAX_SYMBOL_CONTEXT_TOKENS.
+ *
+ * @param resolvePath Maps a repository-relative path to an absolute one.
+ * @param countTokens Tokenizer of the model the chunks are sized for.
+ * @returns The number of files that gained symbol context.
+ */
+export async function addEnclosingSymbols(
+  files: DiffFile[],
+  contextLines: number,
+  resolvePath: (filePath: string) => Promise<string>,
+  countTokens: TokenBudget['countTokens'],
+  token?: vscode.CancellationToken
+): Promise<number> {
+  let widened = 0;
+  for (const file of files) {
+    if (token?.isCancellationRequested) { throw new vscode.CancellationError(); }
+    if (!file.fullContent || file.hunks.length === 0) { continue; }
+
+    let symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined;
+    try {
+      const doc = await openReviewedDocument(file, resolvePath);
+      if (!doc) { continue; }
+      symbols = await vscode.commands.executeCommand<Array<vscode.DocumentSymbol | vscode.SymbolInformation>>(
+        'vscode.executeDocumentSymbolProvider', doc.uri
+      );
+    } catch {
+      continue; // failing provider: keep the line window
+    }
+    if (!symbols?.length) { continue; }
+
+    const ranges = collectRanges(symbols);
+    const lines = file.fullContent.split('\n');
+    const counted = new Set<number>();
+    let spent = 0;
+    let changed = false;
+
+    for (const hunk of file.hunks) {
+      const first = hunk.newStart - 1;
+      const last = first + Math.max(hunk.newLines, 1) - 1;
+      const enclosing = ranges
+        .filter(r => r.start <= first && r.end >= last)
+        .sort((a, b) => (a.end - a.start) - (b.end - b.start))[0];
+      if (!enclosing) { continue; }
+
+      // Only lines beyond the regular window (and not already paid for) cost extra
+      const windowStart = first - contextLines;
+      const windowEnd = last + contextLines;
+      const extra: string[] = [];
+      for (let line = enclosing.start; line <= Math.min(enclosing.end, lines.length - 1); line++) {
+        if ((line < windowStart || line > windowEnd) && !counted.has(line)) { extra.push(lines[line]); }
+      }
+      if (extra.length === 0) { continue; }
+      const cost = await countTokens(extra.join('\n'));
+      if (spent + cost > MAX_SYMBOL_CONTEXT_TOKENS) { continue; }
+
+      spent += cost;
+      for (let line = enclosing.start; line <= enclosing.end; line++) { counted.add(line); }
+      hunk.enclosingRange = { startLine: enclosing.start + 1, endLine: enclosing.end + 1 };
+      changed = true;
+    }
+    if (changed) { widened++; }
+  }
+  return widened;
+}
+
+/** Call sites on a line: an identifier directly followed by an opening parenthesis. */
+const CALL_PATTERN = /([A-Za-z_$][\w$]*)\s*\(/g;
+
+/** Keywords that look like calls (`if (`, `function (`), never worth a lookup. */
+const CALL_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'return', 'function', 'typeof', 'await', 'new',
+  'super', 'this', 'elif', 'print', 'def', 'lambda', 'with', 'assert', 'not', 'and', 'or', 'in',
+]);
+
+/** Definition lookups per file, so a long file cannot stall the review. */
+const MAX_DEFINITION_LOOKUPS = 30;
+
+/** Doc comment lines above a definition that are kept. */
+const MAX_DOC_LINES = 15;
+
+/** Signature lines kept from the start of a definition. */
+const MAX_SIGNATURE_LINES = 6;
+
+const COMMENT_LINE = /^\s*(\/\/|\/\*|\*|#|--|""")/;
+
+/**
+ * Doc comment and signature of the definition starting at `line`: the comment
+ * block right above it plus lines up to the one that opens its body.
+ */
+function definitionText(doc: vscode.TextDocument, line: number): string {
+  let docStart = line;
+  while (docStart > 0 && line - docStart < MAX_DOC_LINES && COMMENT_LINE.test(doc.lineAt(docStart - 1).text)) {
+    docStart--;
+  }
+  // Decorators and annotations belong to the signature
+  while (docStart > 0 && /^\s*@/.test(doc.lineAt(docStart - 1).text)) {
+    docStart--;
+  }
+  let end = line;
+  while (end < doc.lineCount - 1 && end - line < MAX_SIGNATURE_LINES - 1 && !/[{:;]\s*$|=>/.test(doc.lineAt(end).text)) {
+    end++;
+  }
+  const lines: string[] = [];
+  for (let i = docStart; i <= end; i++) { lines.push(doc.lineAt(i).text); }
+  return lines.join('\n');
+}
+
+/**
+ * Look up the functions that added lines call and attach their doc comments
+ * and signatures as `DiffFile.referencedDefinitions`, so the model sees the
+ * contract of an API instead of guessing it.
+ *
+ * Uses the language's definition provider at each call site. Definitions in
+ * files of the diff are skipped (the model reviews those already), as are call
+ * sites in files whose content does not match the document on disk. Each file
+ * gets at most `maxTokens` of definitions (counted with `countTokens`, the
+ * chunk-sizing tokenizer), in the order the calls appear.
+ *
+ * @returns The number of definitions found.
+ */
+export async function addReferencedDefinitions(
+  files: DiffFile[],
+  maxTokens: number,
+  resolvePath: (filePath: string) => Promise<string>,
+  countTokens: TokenBudget['countTokens'],
+  token?: vscode.CancellationToken
+): Promise<number> {
+  if (maxTokens <= 0) { return 0; }
+  const changedPaths = new Set<string>();
+  for (const file of files) { changedPaths.add(await resolvePath(file.path)); }
+
+  let found = 0;
+  for (const file of files) {
+    if (token?.isCancellationRequested) { throw new vscode.CancellationError(); }
+    const doc = await openReviewedDocument(file, resolvePath);
+    if (!doc) { continue; }
+
+    const moved = new Set(file.hunks.flatMap(h => h.movedLines ?? []));
+    const seen = new Set<string>();
+    const definitions: ReferencedDefinition[] = [];
+    let spent = 0;
+    let lookups = 0;
+
+    lines: for (const lineNum of file.hunks.flatMap(h => h.addedLines)) {
+      if (moved.has(lineNum) || lineNum > doc.lineCount) { continue; }
+      const text = doc.lineAt(lineNum - 1).text;
+      for (const match of text.matchAll(CALL_PATTERN)) {
+        const name = match[1];
+        if (CALL_KEYWORDS.has(name) || seen.has(name)) { continue; }
+        seen.add(name);
+        if (++lookups > MAX_DEFINITION_LOOKUPS || spent >= maxTokens) { break lines; }
+
+        let targets: Array<vscode.Location | vscode.LocationLink> | undefined;
+        try {
+          targets = await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink>>(
+            'vscode.executeDefinitionProvider', doc.uri, new vscode.Position(lineNum - 1, match.index!)
+          );
+        } catch {
+          continue;
+        }
+        const target = targets?.[0];
+        if (!target) { continue; }
+        const uri = 'targetUri' in target ? target.targetUri : target.uri;
+        const range = 'targetUri' in target ? (target.targetSelectionRange ?? target.targetRange) : target.range;
+        if (uri.scheme === 'file' && changedPaths.has(uri.fsPath)) { continue; }
+
+        let definition: ReferencedDefinition;
+        try {
+          const targetDoc = await vscode.workspace.openTextDocument(uri);
+          definition = {
+            name,
+            location: `${vscode.workspace.asRelativePath(uri)}:${range.start.line + 1}`,
+            text: definitionText(targetDoc, range.start.line),
+          };
+        } catch {
+          continue;
+        }
+        const cost = await countTokens(definition.text);
+        if (spent + cost > maxTokens) { continue; }
+        spent += cost;
+        definitions.push(definition);
+      }
+    }
+
+    if (definitions.length > 0) {
+      file.referencedDefinitions = definitions;
+      found += definitions.length;
+    }
+  }
+  return found;
+}
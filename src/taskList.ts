@@ -1,5 +1,7 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
-import { ReviewFinding, severityIcon, severityRank, Severity } from './types';
+import { ReviewFinding, severityIcon, Severity } from './types';
+import { findingScore } from './findings';
 
 /** Apply Unicode combining long stroke overlay (U+0336) to every character. */
 function strikeThrough(text: string): string {
@@ -16,12 +18,51 @@ function strikeThrough(text: string): string {
   }
 }
 
+/** Findings of one file in one repository. */
+interface FileGroup {
+  file: string;
+  repoRoot?: string;
+  findings: ReviewFinding[];
+}
+
+/**
+ * Group findings by repository and file, so the same relative path in two
+ * repositories of a multi-root review stays in separate groups.
+ */
+function groupFindingsByFile(findings: ReviewFinding[]): FileGroup[] {
+  const groups = new Map<string, FileGroup>();
+  for (const f of findings) {
+    const key = `${f.repoRoot ?? ''}\0${f.file}`;
+    const group = groups.get(key) ?? { file: f.file, repoRoot: f.repoRoot, findings: [] };
+    group.findings.push(f);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * File group label: "old → new" when the file was renamed in the reviewed diff,
+ * prefixed with the repository name when findings span several repositories.
+ */
+function fileGroupLabel(group: FileGroup, multiRepo: boolean): string {
+  const oldFile = group.findings.find(f => f.oldFile)?.oldFile;
+  const label = oldFile ? `${oldFile} → ${group.file}` : group.file;
+  return multiRepo && group.repoRoot ? `${path.basename(group.repoRoot)}: ${label}` : label;
+}
+
+/** Whether the verification pass refuted a finding that was kept. */
+function isLowConfidence(finding: ReviewFinding): boolean {
+  return finding.verification?.verdict === 'refuted';
+}
+
 /**
  * TreeView sidebar for the Copilot Review Agent task list.
  * Two-level hierarchy: File (collapsible) > Finding (leaf)
  * With a summary item at the root.
  */
-export type SortMode = 'alphabetical' | 'findingsCount';
+export type SortMode = 'alphabetical' | 'findingsCount' | 'severityConfidence';
+
+const SORT_MODES: SortMode[] = ['alphabetical', 'findingsCount', 'severityConfidence'];
 
 export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
   private _onDidChangeTreeData = new vscode.EventEmitter<TaskListItem | undefined | void>();
@@ -67,9 +108,9 @@ export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
     return this.findings.find(f => f.id === id);
   }
 
-  getFileFindings(filePath: string, statusFilter?: ReviewFinding['status']): ReviewFinding[] {
+  getFileFindings(filePath: string, statusFilter?: ReviewFinding['status'], repoRoot?: string): ReviewFinding[] {
     return this.findings
-      .filter(f => f.file === filePath && (!statusFilter || f.status === statusFilter))
+      .filter(f => f.file === filePath && f.repoRoot === repoRoot && (!statusFilter || f.status === statusFilter))
       .map(f => ({ ...f }));
   }
 
@@ -102,7 +143,7 @@ export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
   }
 
   cycleSortMode(): void {
-    this.sortMode = this.sortMode === 'alphabetical' ? 'findingsCount' : 'alphabetical';
+    this.sortMode = SORT_MODES[(SORT_MODES.indexOf(this.sortMode) + 1) % SORT_MODES.length];
     this.refresh();
   }
 
@@ -146,59 +187,72 @@ export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
 
     const groups: TaskListItem[] = [summary];
 
+    // Findings the verifier refuted are kept apart, below the rest
+    const confident = this.findings.filter(f => !isLowConfidence(f));
     if (this.groupBy === 'file') {
-      groups.push(...this.groupByFile());
+      groups.push(...this.groupByFile(confident));
     } else {
-      groups.push(...this.groupBySeverity());
+      groups.push(...this.groupBySeverity(confident));
+    }
+
+    const lowConfidence = this.findings.filter(isLowConfidence);
+    if (lowConfidence.length > 0) {
+      groups.push(this.lowConfidenceGroup(lowConfidence));
     }
 
     return groups;
   }
 
-  private groupByFile(): TaskListItem[] {
-    const fileMap = new Map<string, ReviewFinding[]>();
-    for (const f of this.findings) {
-      const arr = fileMap.get(f.file) || [];
-      arr.push(f);
-      fileMap.set(f.file, arr);
-    }
+  private isMultiRepo(): boolean {
+    return new Set(this.findings.map(f => f.repoRoot)).size > 1;
+  }
 
-    const entries = Array.from(fileMap.entries());
+  private groupByFile(findings: ReviewFinding[]): TaskListItem[] {
+    const multiRepo = this.isMultiRepo();
+    const entries = groupFindingsByFile(findings)
+      .map(g => ({ group: g, label: fileGroupLabel(g, multiRepo) }));
 
     if (this.sortMode === 'findingsCount') {
-      entries.sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]));
+      entries.sort((a, b) => b.group.findings.length - a.group.findings.length || a.label.localeCompare(b.label));
+    } else if (this.sortMode === 'severityConfidence') {
+      // Files with the most severe, most certain finding first
+      const topScore = (g: FileGroup) => Math.max(...g.findings.map(findingScore));
+      entries.sort((a, b) => topScore(b.group) - topScore(a.group) || a.label.localeCompare(b.label));
     } else {
-      entries.sort((a, b) => a[0].localeCompare(b[0]));
+      entries.sort((a, b) => a.label.localeCompare(b.label));
     }
 
     const groups: TaskListItem[] = [];
-    for (const [file, findings] of entries) {
+    for (const { group: fileFindings, label } of entries) {
+      const findings = fileFindings.findings;
       const resolvedCount = findings.filter(f => f.status !== 'open').length;
       const group = new TaskListItem(
-        file,
+        label,
         vscode.TreeItemCollapsibleState.Collapsed,
       );
       group.contextValue = 'fileGroup';
       group.description = `${resolvedCount}/${findings.length} resolved`;
       group.iconPath = new vscode.ThemeIcon('file');
-      group.filePath = file;
-      group.children = findings.map(f => this.findingToTreeItem(f, group));
+      group.filePath = fileFindings.file;
+      group.repoRoot = fileFindings.repoRoot;
+      group.children = this.orderFindings(findings).map(f => this.findingToTreeItem(f, group));
       groups.push(group);
     }
 
     return groups;
   }
 
-  private groupBySeverity(): TaskListItem[] {
+  private groupBySeverity(allFindings: ReviewFinding[]): TaskListItem[] {
     // 'nit' is intentionally kept here even though the default severityThreshold
     // is 'low' (which filters nit findings during review). Findings from older
     // stored data or a user-configured lower threshold can include 'nit', and
     // displaying them is safer than silently dropping them.
     const severityOrder: Severity[] = ['blocker', 'high', 'medium', 'low', 'nit'];
+    const multiRepo = this.isMultiRepo();
     const groups: TaskListItem[] = [];
 
     for (const sev of severityOrder) {
-      const findings = this.findings.filter(f => f.severity === sev);
+      const findings = allFindings.filter(f => f.severity === sev);
       if (findings.length === 0) { continue; }
 
       const resolvedCount = findings.filter(f => f.status !== 'open').length;
@@ -211,28 +265,24 @@ export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
       sevGroup.iconPath = severityIcon(sev);
 
       // Sub-group by file within each severity
-      const fileMap = new Map<string, ReviewFinding[]>();
-      for (const f of findings) {
-        const arr = fileMap.get(f.file) || [];
-        arr.push(f);
-        fileMap.set(f.file, arr);
-      }
+      const fileEntries = groupFindingsByFile(findings)
+        .map(g => ({ group: g, label: fileGroupLabel(g, multiRepo) }));
+      fileEntries.sort((a, b) => a.label.localeCompare(b.label));
 
-      const fileEntries = Array.from(fileMap.entries());
-      fileEntries.sort((a, b) => a[0].localeCompare(b[0]));
-
-      sevGroup.children = fileEntries.map(([file, fileFindings]) => {
+      sevGroup.children = fileEntries.map(({ group, label }) => {
+        const fileFindings = group.findings;
         const fileResolvedCount = fileFindings.filter(f => f.status !== 'open').length;
         const fileGroup = new TaskListItem(
-          file,
+          label,
           vscode.TreeItemCollapsibleState.Collapsed,
         );
         fileGroup.contextValue = 'fileGroup';
         fileGroup.description = `${fileResolvedCount}/${fileFindings.length} resolved`;
         fileGroup.iconPath = new vscode.ThemeIcon('file');
-        fileGroup.filePath = file;
+        fileGroup.filePath = group.file;
+        fileGroup.repoRoot = group.repoRoot;
         fileGroup.parent = sevGroup;
-        fileGroup.children = fileFindings.map(f => this.findingToTreeItem(f, fileGroup));
+        fileGroup.children = this.orderFindings(fileFindings).map(f => this.findingToTreeItem(f, fileGroup));
         return fileGroup;
       });
 
@@ -242,6 +292,30 @@ export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
     return groups;
   }
 
+  /** Findings of one group in display order: by severity × confidence when that sort is active. */
+  private orderFindings(findings: ReviewFinding[]): ReviewFinding[] {
+    return this.sortMode === 'severityConfidence'
+      ? [...findings].sort((a, b) => findingScore(b) - findingScore(a))
+      : findings;
+  }
+
+  /** Collapsed group of findings the verifier refuted, listed by file and line. */
+  private lowConfidenceGroup(findings: ReviewFinding[]): TaskListItem {
+    const resolvedCount = findings.filter(f => f.status !== 'open').length;
+    const group = new TaskListItem(
+      `Low confidence (${findings.length})`,
+      vscode.TreeItemCollapsibleState.Collapsed,
+    );
+    group.contextValue = 'lowConfidenceGroup';
+    group.description = `${resolvedCount}/${findings.length} resolved`;
+    group.tooltip = 'Findings the verification pass refuted. Review them with care: they are likely false positives.';
+    group.iconPath = new vscode.ThemeIcon('question');
+    group.children = [...findings]
+      .sort((a, b) => a.file.localeCompare(b.file) || a.startLine - b.startLine)
+      .map(f => this.findingToTreeItem(f, group));
+    return group;
+  }
+
   private findingToTreeItem(finding: ReviewFinding, parent: TaskListItem): TaskListItem {
     const item = new TaskListItem(
       finding.title,
@@ -249,10 +323,13 @@ export class TaskListProvider implements vscode.TreeDataProvider<TaskListItem> {
     );
 
     item.contextValue = 'finding';
-    item.description = `${finding.file}:${finding.startLine}`;
+    item.description = finding.side === 'old'
+      ? `${finding.oldFile ?? finding.file}:${finding.startLine} (removed)`
+      : `${finding.file}:${finding.startLine}`;
     item.iconPath = severityIcon(finding.severity);
     item.tooltip = new vscode.MarkdownString(
-      `**${finding.severity.toUpperCase()}** — ${finding.category}\n\n${finding.description}`
+      `**${finding.severity.toUpperCase()}** — ${finding.category}${finding.confidence !== undefined ? ` — ${Math.round(finding.confidence * 100)}% confidence` : ''}${finding.commit ? ` — introduced in \`${finding.commit.slice(0, 7)}\`` : ''}\n\n${finding.description}`
+      + (finding.verification ? `\n\n**Verifier (${finding.verification.verdict}):** ${finding.verification.reasoning}` : '')
     );
     item.parent = parent;
     item.findingId = finding.id;
@@ -283,6 +360,7 @@ export class TaskListItem extends vscode.TreeItem {
   parent?: TaskListItem;
   findingId?: string;
   filePath?: string;
+  repoRoot?: string;
 
   constructor(
     label: string,
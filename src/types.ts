@@ -35,8 +35,41 @@ export interface ReviewFinding {
   suggestedFix?: string;
   category: Category;
   status: 'open' | 'skipped' | 'fixed' | 'in-progress';
+  /** Previous path when the file was renamed or copied in the reviewed diff. */
+  oldFile?: string;
+  /** SHA of the commit that introduced the flagged lines (commit-range reviews only). */
+  commit?: string;
+  /**
+   * Which side of the diff the line numbers refer to. "old" findings point at
+   * removed lines in the base version of the file; absent means the new file.
+   */
+  side?: 'old' | 'new';
+  /** Commit SHA of the diff's base side, used to open "old" findings. */
+  baseRef?: string;
+  /**
+   * Root of the repository (workspace folder path) that `file` is relative to.
+   * Absent on findings saved before multi-root support; those resolve against
+   * the default workspace folder.
+   */
+  repoRoot?: string;
+  /** How sure the model is that the issue is real, from 0 to 1 (absent on older findings). */
+  confidence?: number;
+  /** Verdict of the second-pass verification (`verify_findings`), when it ran. */
+  verification?: FindingVerification;
 }
 
+/** The verifier's verdict on a finding and why. */
+export interface FindingVerification {
+  verdict: 'confirmed' | 'refuted';
+  reasoning: string;
+}
+
+/**
+ * Second-pass verification of findings: `off`, `demote` (refuted findings
+ * move to a "Low confidence" group), or `drop` (refuted findings are removed).
+ */
+export type VerificationMode = 'off' | 'demote' | 'drop';
+
 /** A parsed diff hunk */
 export interface DiffHunk {
   file: string;
@@ -50,6 +83,15 @@ export interface DiffHunk {
   addedLines: number[];
   /** 1-based line numbers (in the old file) that were removed by this hunk. */
   removedLines: number[];
+  /** Subset of addedLines that git detected as moved unchanged from elsewhere (detect_moved_code). */
+  movedLines?: number[];
+  /** Subset of removedLines that git detected as moved elsewhere (detect_moved_code). */
+  movedRemovedLines?: number[];
+  /**
+   * 1-based new-file lines of the innermost function or class enclosing the hunk,
+   * found via the document symbol provider. Widens the hunk's context window.
+   */
+  enclosingRange?: { startLine: number; endLine: number };
 }
 
 /** A file with its diff hunks and full content */
@@ -60,6 +102,35 @@ export interface DiffFile {
   isNew: boolean;
   isDeleted: boolean;
   isBinary: boolean;
+  /** Source path for renamed or copied files. */
+  oldPath?: string;
+  /** Similarity index (0-100) reported by git rename/copy detection. */
+  similarity?: number;
+  isRenamed: boolean;
+  isCopied: boolean;
+  /** 1-based new-file line → SHA of the commit that introduced it (commit-range reviews only). */
+  lineCommits?: Record<number, string>;
+  /** Set for a submodule pointer change; the file then has no reviewable hunks. */
+  submodule?: SubmoduleChange;
+  /** Set when an oversized file was split across chunks: this copy holds only some of its hunks. */
+  part?: { index: number; total: number };
+  /** Signatures and doc comments of symbols the added lines call, defined outside the diff. */
+  referencedDefinitions?: ReferencedDefinition[];
+}
+
+/** A definition looked up for a call site in the diff, shown to the model for context. */
+export interface ReferencedDefinition {
+  name: string;
+  /** Workspace-relative `path:line` of the definition. */
+  location: string;
+  /** Doc comment and signature lines. */
+  text: string;
+}
+
+/** Commits a submodule pointer moved between (absent when the submodule was added or removed). */
+export interface SubmoduleChange {
+  oldCommit?: string;
+  newCommit?: string;
 }
 
 /** A chunk of diff data sized for one AI request */
@@ -71,9 +142,24 @@ export interface DiffChunk {
 /** Branch selection state for a review session */
 export interface BranchSelection {
   baseBranch: string;
-  targetBranch: string; // empty string means HEAD + working tree
+  targetBranch: string; // empty string means HEAD + working tree; see also STAGED_TARGET / UNSTAGED_TARGET
   includeUncommitted: boolean;
   mergeBase?: string;
+  /**
+   * Review only these commits instead of the whole branch diff.
+   * Full SHAs, newest first (the order `git log` lists them).
+   */
+  commits?: string[];
+}
+
+/** A commit listed in the commit picker */
+export interface CommitInfo {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  author: string;
+  /** Commit time in ms since epoch */
+  timestamp: number;
 }
 
 /** Extension configuration merged from settings + .copilot-review-agent.yml */
@@ -88,6 +174,28 @@ export interface CopilotReviewAgentConfig {
   categories: Category[];
   customInstructions: string;
   maxFindings: number;
+  /** Ignore whitespace-only changes when computing the diff (`git diff -w`). */
+  ignoreWhitespace: boolean;
+  /** Detect moved blocks (`git diff --color-moved`) so pure moves are not reviewed as new code. */
+  detectMovedCode: boolean;
+  /** Token budget per file for the "Referenced definitions" prompt section; 0 disables it. */
+  definitionContextTokens: number;
+  /** Review order by path (`priority_rules`); empty means the built-in Rails-style preset. */
+  priorityRules: PriorityRule[];
+  /** Chunks reviewed concurrently (model requests in flight at once). */
+  maxParallelRequests: number;
+  /** Re-check each finding with the model after the review chunks finish. */
+  verifyFindings: VerificationMode;
+  /** Findings the model is less sure of than this (0–1) are not reported. */
+  minConfidence: number;
+}
+
+/** Maps files to a review priority (lower is reviewed first) and optionally the categories to focus on. */
+export interface PriorityRule {
+  /** Glob matched against the repository-relative path; the first matching rule applies. */
+  pattern: string;
+  priority: number;
+  categories?: Category[];
 }
 
 /** Maps severity to ThemeIcon */
@@ -106,23 +214,6 @@ export function severityIcon(severity: Severity): vscode.ThemeIcon {
   }
 }
 
-/** Severity comparison for filtering */
-export function severityRank(severity: Severity): number {
-  const ranks: Record<Severity, number> = {
-    blocker: 5,
-    high: 4,
-    medium: 3,
-    low: 2,
-    nit: 1,
-  };
-  return ranks[severity];
-}
-
-/** Generates a unique finding ID */
-export function nextFindingId(): string {
-  return `sr-${randomUUID()}`;
-}
-
 /** A persisted review session (for history) */
 export interface ReviewSession {
   id: string;
@@ -135,6 +226,46 @@ export interface ReviewSession {
   summary?: ReviewSessionSummary;
   /** True when the review was cancelled before all chunks were processed */
   partial?: boolean;
+  /** Commits reviewed in commit-range mode (newest first) */
+  commits?: string[];
+  /** SHA each repository's target resolved to when the review ran, keyed by repository root */
+  targetCommits?: Record<string, string>;
+  /**
+   * Content hash of every reviewed file, keyed by path (prefixed with the
+   * repository root when several repositories were reviewed), for incremental re-review
+   */
+  fileHashes?: Record<string, string>;
+  /** Roots of the repositories covered by the review (several when all were reviewed together) */
+  repoRoots?: string[];
+  /** Chunks whose review request failed, so they can be retried on their own */
+  failedChunks?: FailedChunk[];
+  /** Chunks not yet reviewed when the review was cancelled, so it can be continued */
+  remainingChunks?: SessionChunk[];
+  /** Merge base each repository was reviewed against, keyed by repository root */
+  mergeBases?: Record<string, string>;
+}
+
+/** The files and hunks that made up a chunk, so it can be rebuilt from a fresh diff */
+export interface ChunkDefinition {
+  files: Array<{
+    path: string;
+    /** Set when the chunk held only some hunks of a split file */
+    part?: { index: number; total: number };
+    /** New-file line ranges (1-based, inclusive) of the chunk's hunks */
+    hunks: Array<{ start: number; end: number }>;
+  }>;
+}
+
+/** A chunk of a saved review, with the repository it belongs to */
+export interface SessionChunk extends ChunkDefinition {
+  /** Root of the repository the files are relative to */
+  repoRoot: string;
+}
+
+/** A chunk whose review request failed after all retries */
+export interface FailedChunk extends SessionChunk {
+  /** Message of the last error */
+  error: string;
 }
 
 export interface ReviewAgentStep {
@@ -1,7 +1,8 @@
 import assert from 'node:assert/strict';
 import * as mocha from 'mocha';
-import { buildFileContext } from '../src/chunker';
+import { buildFileContext, buildFindingContext, chunkDiffFiles, describeChunk, isMoveOnlyFinding, placeFinding, rebuildChunks } from '../src/chunker';
 import { DiffFile, CopilotReviewAgentConfig } from '../src/types';
+import { changedFile, makeHunk } from './helpers';
 
 /**
  * Minimal CopilotReviewAgentConfig for tests — only `contextLines` and
@@ -18,22 +19,15 @@ const config: CopilotReviewAgentConfig = {
   categories: [],
   customInstructions: '',
   maxFindings: 20,
+  ignoreWhitespace: false,
+  detectMovedCode: false,
+  definitionContextTokens: 0,
+  priorityRules: [],
+  maxParallelRequests: 1,
+  verifyFindings: 'off',
+  minConfidence: 0,
 };
 
-function makeHunk(newStart: number, newLines: number, addedLines: number[]): import('../src/types').DiffHunk {
-  return {
-    file: 'src/foo.ts',
-    oldStart: newStart,
-    oldLines: newLines,
-    newStart,
-    newLines,
-    header: 'function foo()',
-    content: '',
-    addedLines,
-    removedLines: [],
-  };
-}
-
 describe('buildFileContext – addedLines annotation', () => {
   it('marks lines listed in addedLines (1-based) with + prefix', () => {
     // The file has three lines; lines 1 and 3 are new additions.
@@ -42,6 +36,8 @@ describe('buildFileContext – addedLines annotation', () => {
       isNew: false,
       isDeleted: false,
       isBinary: false,
+      isRenamed: false,
+      isCopied: false,
       fullContent: 'const a = 1;\nconst b = 2;\nconst c = 3;',
       hunks: [makeHunk(1, 3, [1, 3])],
     };
@@ -75,6 +71,8 @@ describe('buildFileContext – addedLines annotation', () => {
       isNew: false,
       isDeleted: false,
       isBinary: false,
+      isRenamed: false,
+      isCopied: false,
       fullContent: 'line one\nline two',
       hunks: [makeHunk(1, 2, [])],
     };
@@ -98,6 +96,8 @@ describe('buildFileContext – addedLines annotation', () => {
       isNew: false,
       isDeleted: false,
       isBinary: false,
+      isRenamed: false,
+      isCopied: false,
       fullContent,
       hunks: [makeHunk(3, 2, [4])],
     };
@@ -118,3 +118,394 @@ describe('buildFileContext – addedLines annotation', () => {
     assert.match(line4!, /^\+/, 'line 4 is in addedLines → + prefix');
   });
 });
+
+describe('buildFileContext – renamed files', () => {
+  it('names the old path in the file header', () => {
+    const file: DiffFile = {
+      path: 'src/new.ts',
+      oldPath: 'src/old.ts',
+      similarity: 92,
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: true,
+      isCopied: false,
+      fullContent: 'a\nb',
+      hunks: [makeHunk(2, 1, [2])],
+    };
+
+    const header = buildFileContext(file, config).split('\n')[0];
+    assert.equal(header, '## File: src/new.ts (renamed from src/old.ts, 92% similar)');
+  });
+});
+
+describe('buildFileContext – removed lines', () => {
+  it('interleaves removed lines with old-file line numbers before the line that replaced them', () => {
+    // Old file: a, guard, b, c → new file: a, b, c, d (guard on old line 2 removed, d added)
+    const file: DiffFile = {
+      path: 'src/foo.ts',
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: false,
+      isCopied: false,
+      fullContent: 'a\nb\nc\nd',
+      hunks: [{
+        file: 'src/foo.ts',
+        oldStart: 1,
+        oldLines: 4,
+        newStart: 1,
+        newLines: 4,
+        header: '',
+        content: '@@ -1,4 +1,4 @@\n a\n-guard\n b\n c\n+d',
+        addedLines: [4],
+        removedLines: [2],
+      }],
+    };
+
+    const code = buildFileContext(file, config)
+      .split('\n')
+      .filter(l => /^[ +-]\s*\d+ \|/.test(l));
+
+    assert.deepEqual(code, [
+      '     1 | a',
+      '-    2 | guard',
+      '     2 | b',
+      '     3 | c',
+      '+    4 | d',
+    ]);
+  });
+
+  it('shows removals at the end of the file after the last line', () => {
+    const file: DiffFile = {
+      path: 'src/foo.ts',
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: false,
+      isCopied: false,
+      fullContent: 'a',
+      hunks: [{
+        file: 'src/foo.ts',
+        oldStart: 2,
+        oldLines: 1,
+        newStart: 1,
+        newLines: 0,
+        header: '',
+        content: '@@ -2 +1,0 @@\n-tail',
+        addedLines: [],
+        removedLines: [2],
+      }],
+    };
+
+    const result = buildFileContext(file, { ...config, contextLines: 1 });
+    assert.ok(result.includes('     1 | a\n-    2 | tail'), result);
+  });
+});
+
+describe('moved code', () => {
+  function movedFile(addedLines: number[], movedLines: number[]): DiffFile {
+    return {
+      path: 'src/foo.ts',
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: false,
+      isCopied: false,
+      fullContent: 'a\nb\nc\nd',
+      hunks: [{ ...makeHunk(2, 3, addedLines), movedLines }],
+    };
+  }
+
+  it('marks moved lines with > instead of +', () => {
+    const code = buildFileContext(movedFile([2, 3, 4], [2, 3]), config)
+      .split('\n')
+      .filter(l => /^[ +>]\s*\d+ \|/.test(l));
+
+    assert.deepEqual(code, [
+      '>    2 | b',
+      '>    3 | c',
+      '+    4 | d',
+    ]);
+  });
+
+  it('treats findings inside a hunk that only moved code as move-only', () => {
+    const file = movedFile([2, 3], [2, 3]);
+    assert.equal(isMoveOnlyFinding(file, { startLine: 2, endLine: 3 }), true);
+    // Line 1 is outside the hunk, so the finding is not only about the move
+    assert.equal(isMoveOnlyFinding(file, { startLine: 1, endLine: 2 }), false);
+  });
+
+  it('keeps findings on moved lines when the surrounding code changed', () => {
+    const file = movedFile([2, 3, 4], [2, 3]);
+    assert.equal(isMoveOnlyFinding(file, { startLine: 2, endLine: 2 }), false);
+  });
+});
+
+describe('placeFinding', () => {
+  // 100-line file with lines 42 and 43 added
+  const file: DiffFile = {
+    path: 'src/foo.ts',
+    isNew: false,
+    isDeleted: false,
+    isBinary: false,
+    isRenamed: false,
+    isCopied: false,
+    fullContent: Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join('\n'),
+    hunks: [{ ...makeHunk(40, 6, [42, 43]), removedLines: [41] }],
+  };
+
+  it('keeps findings on or near the changed lines', () => {
+    assert.deepEqual(placeFinding(file, { startLine: 42, endLine: 43 }), { kind: 'ok' });
+    assert.deepEqual(placeFinding(file, { startLine: 46, endLine: 48 }), { kind: 'ok' });
+  });
+
+  it('snaps findings a little off, or past the end of the file, onto the nearest changed line', () => {
+    assert.deepEqual(placeFinding(file, { startLine: 55, endLine: 56 }), { kind: 'snapped', startLine: 43, endLine: 43 });
+    assert.deepEqual(placeFinding({ ...file, fullContent: 'a\n'.repeat(50) }, { startLine: 52, endLine: 52 }),
+      { kind: 'snapped', startLine: 43, endLine: 43 });
+  });
+
+  it('drops findings far from the change or for files outside the chunk', () => {
+    assert.deepEqual(placeFinding(file, { startLine: 90, endLine: 92 }), { kind: 'dropped', reason: 'far from changed lines' });
+    assert.deepEqual(placeFinding(file, { startLine: 400, endLine: 400 }), { kind: 'dropped', reason: 'past end of file' });
+    assert.deepEqual(placeFinding(undefined, { startLine: 1, endLine: 1 }), { kind: 'dropped', reason: 'file not in chunk' });
+  });
+
+  it('checks old-side findings against the removed lines', () => {
+    assert.deepEqual(placeFinding(file, { side: 'old', startLine: 41, endLine: 41 }), { kind: 'ok' });
+    assert.deepEqual(placeFinding(file, { side: 'old', startLine: 90, endLine: 90 }), { kind: 'dropped', reason: 'far from changed lines' });
+  });
+});
+
+describe('buildFindingContext', () => {
+  const file: DiffFile = {
+    path: 'src/foo.ts',
+    isNew: false,
+    isDeleted: false,
+    isBinary: false,
+    isRenamed: false,
+    isCopied: false,
+    fullContent: Array.from({ length: 200 }, (_, i) => `line ${i + 1}`).join('\n'),
+    hunks: [makeHunk(10, 1, [10]), makeHunk(150, 1, [150])],
+    referencedDefinitions: [{ name: 'helper', location: 'src/util.ts:3', text: 'function helper(): void' }],
+  };
+
+  it('shows only the hunks near the finding, with surrounding lines', () => {
+    const context = buildFindingContext(file, { startLine: 150, endLine: 150 }, config);
+    assert.match(context, /^\+  150 \| line 150$/m);
+    assert.match(context, /^   135 \| line 135$/m);
+    assert.doesNotMatch(context, /line 10$/m);
+    assert.doesNotMatch(context, /Referenced definitions/);
+  });
+});
+
+describe('buildFileContext – enclosing symbols', () => {
+  function fileWithHunks(...hunks: import('../src/types').DiffHunk[]): DiffFile {
+    return {
+      path: 'src/foo.ts',
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: false,
+      isCopied: false,
+      fullContent: Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n'),
+      hunks,
+    };
+  }
+  const shownLines = (text: string) => text
+    .split('\n')
+    .map(l => /^[ +]\s*(\d+) \|/.exec(l)?.[1])
+    .filter(n => n !== undefined)
+    .map(Number);
+
+  it('widens the context window to the enclosing symbol', () => {
+    const file = fileWithHunks({ ...makeHunk(6, 1, [6]), enclosingRange: { startLine: 4, endLine: 9 } });
+    assert.deepEqual(shownLines(buildFileContext(file, { ...config, contextLines: 1 })), [4, 5, 6, 7, 8, 9]);
+  });
+
+  it('keeps the line window where it reaches beyond the symbol', () => {
+    const file = fileWithHunks({ ...makeHunk(6, 1, [6]), enclosingRange: { startLine: 5, endLine: 7 } });
+    assert.deepEqual(shownLines(buildFileContext(file, { ...config, contextLines: 2 })), [4, 5, 6, 7, 8]);
+  });
+
+  it('merges hunks that share an enclosing symbol into one block', () => {
+    const enclosingRange = { startLine: 3, endLine: 15 };
+    const file = fileWithHunks(
+      { ...makeHunk(4, 1, [4]), enclosingRange },
+      { ...makeHunk(14, 1, [14]), enclosingRange },
+    );
+    const context = buildFileContext(file, config);
+    assert.equal(context.match(/### Hunk at/g)?.length, 1);
+    assert.deepEqual(shownLines(context), Array.from({ length: 13 }, (_, i) => i + 3));
+  });
+});
+
+describe('buildFileContext – referenced definitions', () => {
+  it('lists definitions after the hunks', () => {
+    const file: DiffFile = {
+      path: 'src/foo.ts',
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: false,
+      isCopied: false,
+      fullContent: 'const user = findUser(id);',
+      hunks: [makeHunk(1, 1, [1])],
+      referencedDefinitions: [{
+        name: 'findUser',
+        location: 'src/users.ts:12',
+        text: '/** Returns undefined when no user has the id. */\nexport function findUser(id: string): User | undefined {',
+      }],
+    };
+
+    const context = buildFileContext(file, config);
+    assert.ok(context.indexOf('### Referenced definitions') > context.indexOf('findUser(id);'), context);
+    assert.ok(context.includes('`findUser` — src/users.ts:12\n```\n/** Returns undefined'), context);
+  });
+});
+
+describe('chunkDiffFiles – related files', () => {
+  const paths = (chunks: import('../src/types').DiffChunk[]) => chunks.map(c => c.files.map(f => f.path));
+
+  it('keeps a controller with the service it imports', async () => {
+    const files = [
+      changedFile('src/routes.ts', 'export const routes = [];'),
+      changedFile('src/services/users.ts', 'export function findUser() {}'),
+      changedFile('src/controllers/users.ts', "import { findUser } from '../services/users';"),
+    ];
+    const chunks = await chunkDiffFiles(files, { ...config, maxFilesPerChunk: 2 });
+
+    assert.deepEqual(paths(chunks), [['src/controllers/users.ts', 'src/services/users.ts'], ['src/routes.ts']]);
+  });
+
+  it('puts a test file with the source file it covers', async () => {
+    const files = [
+      changedFile('app/models/user.rb', 'class User; end'),
+      changedFile('app/models/account.rb', 'class Account; end'),
+      changedFile('spec/models/user_spec.rb', 'describe User do; end'),
+    ];
+    const chunks = await chunkDiffFiles(files, { ...config, maxFilesPerChunk: 2 });
+
+    assert.deepEqual(paths(chunks), [['app/models/user.rb', 'spec/models/user_spec.rb'], ['app/models/account.rb']]);
+  });
+
+  it('follows Python imports', async () => {
+    const files = [
+      changedFile('pkg/api.py', 'from pkg import store\nfrom .session import (\n  check,\n)'),
+      changedFile('pkg/other.py', 'x = 1'),
+      changedFile('pkg/store.py', 'import os'),
+      changedFile('pkg/session.py', 'def check(): pass'),
+    ];
+    const chunks = await chunkDiffFiles(files, { ...config, maxFilesPerChunk: 3 });
+
+    assert.deepEqual(paths(chunks), [['pkg/api.py', 'pkg/store.py', 'pkg/session.py'], ['pkg/other.py']]);
+  });
+});
+
+describe('chunkDiffFiles – priority rules', () => {
+  const changed = (path: string) => changedFile(path, 'package main');
+  const rules = [
+    { pattern: 'internal/auth/**', priority: 0, categories: ['security' as const] },
+    { pattern: 'cmd/**', priority: 1 },
+  ];
+
+  it('orders files by the first matching rule, unmatched files last', async () => {
+    const files = [changed('pkg/util/strings.go'), changed('cmd/server/main.go'), changed('internal/auth/token.go')];
+    const chunks = await chunkDiffFiles(files, { ...config, maxFilesPerChunk: 1, priorityRules: rules });
+
+    assert.deepEqual(chunks.map(c => c.files[0].path), ['internal/auth/token.go', 'cmd/server/main.go', 'pkg/util/strings.go']);
+  });
+
+  it('uses the Rails-style preset when no rules are configured', async () => {
+    const files = [changed('app/models/user.rb'), changed('app/controllers/users_controller.rb')];
+    const chunks = await chunkDiffFiles(files, { ...config, maxFilesPerChunk: 1 });
+
+    assert.deepEqual(chunks.map(c => c.files[0].path), ['app/controllers/users_controller.rb', 'app/models/user.rb']);
+  });
+
+  it('reviews a related group at its highest-priority member, members in priority order', async () => {
+    const files = [
+      changedFile('src/readme.ts', 'export {};'),
+      changedFile('src/util.ts', 'export {};'),
+      changedFile('src/api/handler.ts', "import '../util';"),
+      changedFile('src/auth/session.ts', "import '../util';"),
+    ];
+    const tsRules = [{ pattern: 'src/auth/**', priority: 0 }, { pattern: 'src/api/**', priority: 1 }];
+    const chunks = await chunkDiffFiles(files, { ...config, maxFilesPerChunk: 3, priorityRules: tsRules });
+
+    assert.deepEqual(chunks.map(c => c.files.map(f => f.path)), [
+      ['src/auth/session.ts', 'src/api/handler.ts', 'src/util.ts'],
+      ['src/readme.ts'],
+    ]);
+  });
+
+  it('names the focus categories of the matching rule in the file header', () => {
+    const header = (path: string) => buildFileContext(changed(path), { ...config, priorityRules: rules }).split('\n')[0];
+
+    assert.equal(header('internal/auth/token.go'), '## File: internal/auth/token.go (focus: security)');
+    assert.equal(header('cmd/server/main.go'), '## File: cmd/server/main.go');
+  });
+});
+
+describe('chunkDiffFiles – oversized files', () => {
+  // One token per line keeps the arithmetic readable
+  const countLines = async (text: string) => text.split('\n').length;
+
+  function bigFile(): DiffFile {
+    return {
+      path: 'src/big.ts',
+      isNew: false,
+      isDeleted: false,
+      isBinary: false,
+      isRenamed: false,
+      isCopied: false,
+      fullContent: Array.from({ length: 100 }, (_, i) => `line ${i + 1}`).join('\n'),
+      hunks: [makeHunk(10, 5, [10]), makeHunk(50, 5, [50]), makeHunk(90, 5, [90])],
+    };
+  }
+
+  it('splits a file over the budget by hunk into numbered parts', async () => {
+    const chunks = await chunkDiffFiles([bigFile()], config, { maxTokens: 15, countTokens: countLines });
+
+    assert.equal(chunks.length, 3);
+    assert.deepEqual(chunks.map(c => c.files[0].hunks.map(h => h.newStart)), [[10], [50], [90]]);
+    assert.deepEqual(chunks.map(c => c.files[0].part), [
+      { index: 1, total: 3 },
+      { index: 2, total: 3 },
+      { index: 3, total: 3 },
+    ]);
+    assert.match(buildFileContext(chunks[1].files[0], config), /^## File: src\/big\.ts \(part 2 of 3\)/);
+  });
+
+  it('packs several hunk windows into one part when they fit', async () => {
+    const chunks = await chunkDiffFiles([bigFile()], config, { maxTokens: 20, countTokens: countLines });
+
+    assert.deepEqual(chunks.map(c => c.files[0].hunks.map(h => h.newStart)), [[10, 50], [90]]);
+  });
+
+  it('leaves referenced definitions out of split parts', async () => {
+    const file = { ...bigFile(), referencedDefinitions: [{ name: 'helper', location: 'src/util.ts:1', text: 'function helper() {' }] };
+    const chunks = await chunkDiffFiles([file], config, { maxTokens: 15, countTokens: countLines });
+
+    assert.equal(chunks.length, 3);
+    assert.ok(chunks.every(c => c.files[0].referencedDefinitions === undefined));
+  });
+
+  it('rebuilds a failed part from its definition against a fresh diff', async () => {
+    const chunks = await chunkDiffFiles([bigFile()], config, { maxTokens: 15, countTokens: countLines });
+    const definition = describeChunk(chunks[1]);
+
+    assert.deepEqual(definition, { files: [{ path: 'src/big.ts', part: { index: 2, total: 3 }, hunks: [{ start: 50, end: 54 }] }] });
+
+    const [rebuilt] = await rebuildChunks([definition], [bigFile()], config);
+    assert.deepEqual(rebuilt.files[0].hunks.map(h => h.newStart), [50]);
+    assert.deepEqual(rebuilt.files[0].part, { index: 2, total: 3 });
+  });
+
+  it('drops files that left the diff when rebuilding', async () => {
+    const definition = { files: [{ path: 'src/gone.ts', hunks: [{ start: 1, end: 1 }] }] };
+
+    assert.deepEqual(await rebuildChunks([definition], [bigFile()], config), []);
+  });
+});
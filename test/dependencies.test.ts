@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import * as mocha from 'mocha';
+import { findImports, groupRelatedFiles, testSubject } from '../src/dependencies';
+import { DiffFile } from '../src/types';
+import { changedFile } from './helpers';
+
+describe('findImports', () => {
+  const known = new Set(['src/a.ts', 'src/lib/index.ts', 'src/esm.ts', 'pkg/store.py', 'pkg/sub/__init__.py', 'app/models/user.rb', 'lib/util.rb']);
+
+  it('resolves relative TS/JS specifiers, index files and emitted .js names', () => {
+    const file = changedFile('src/b.ts', ["import { a } from './a';", "export * from './lib';", "const e = await import('./esm.js');", "import x from 'lodash';"].join('\n'));
+
+    assert.deepEqual(findImports(file, known), ['src/a.ts', 'src/lib/index.ts', 'src/esm.ts']);
+  });
+
+  it('resolves absolute and relative Python imports, including submodules', () => {
+    const file = changedFile('pkg/api.py', 'import os, pkg.store\nfrom . import sub');
+
+    assert.deepEqual(findImports(file, known), ['pkg/store.py', 'pkg/sub/__init__.py']);
+  });
+
+  it('resolves Ruby require and require_relative', () => {
+    const file = changedFile('app/models/account.rb', "require 'util'\nrequire_relative 'user'");
+
+    assert.deepEqual(findImports(file, known), ['lib/util.rb', 'app/models/user.rb']);
+  });
+
+  it('reads the hunks when the full content is unknown', () => {
+    const file: DiffFile = { ...changedFile('src/b.ts', ''), fullContent: undefined };
+    file.hunks[0].content = "@@ -1 +1 @@\n-import './lib';\n+import './a';";
+
+    assert.deepEqual(findImports(file, known), ['src/a.ts']);
+  });
+});
+
+describe('groupRelatedFiles', () => {
+  const paths = (groups: DiffFile[][]) => groups.map(g => g.map(f => f.path));
+
+  it('orders groups by their first file and members depth-first from it', () => {
+    const files = [
+      changedFile('src/a.ts', "import './b';"),
+      changedFile('src/lone.ts', 'export {};'),
+      changedFile('src/c.ts', 'export {};'),
+      changedFile('src/b.ts', "import './c';"),
+    ];
+
+    assert.deepEqual(paths(groupRelatedFiles(files)), [['src/a.ts', 'src/b.ts', 'src/c.ts'], ['src/lone.ts']]);
+  });
+
+  it('does not chain files through a widely imported module', () => {
+    const files = [
+      changedFile('src/types.ts', 'export type Id = string;'),
+      changedFile('src/users.ts', "import './types';"),
+      changedFile('src/users.api.ts', "import './types'; import './users';"),
+      changedFile('src/orders.ts', "import './types';"),
+      changedFile('src/orders.api.ts', "import './types'; import './orders';"),
+      changedFile('src/audit.ts', "import './types';"),
+      changedFile('src/types.test.ts', "import './types';"),
+    ];
+
+    assert.deepEqual(paths(groupRelatedFiles(files)), [
+      ['src/types.ts', 'src/types.test.ts'],
+      ['src/users.ts', 'src/users.api.ts'],
+      ['src/orders.ts', 'src/orders.api.ts'],
+      ['src/audit.ts'],
+    ]);
+  });
+
+  it('does not chain the modules a barrel file re-exports', () => {
+    const files = [
+      changedFile('src/index.ts', ["export * from './a';", "export * from './b';", "export * from './c';", "export * from './d';", "export * from './e';"].join('\n')),
+      changedFile('src/a.ts', 'export {};'),
+      changedFile('src/b.ts', 'export {};'),
+      changedFile('src/c.ts', "import './a';"),
+      changedFile('src/d.ts', 'export {};'),
+      changedFile('src/e.ts', 'export {};'),
+    ];
+
+    assert.deepEqual(paths(groupRelatedFiles(files)), [
+      ['src/index.ts'], ['src/a.ts', 'src/c.ts'], ['src/b.ts'], ['src/d.ts'], ['src/e.ts'],
+    ]);
+  });
+
+  it('still groups a module with a few importers', () => {
+    const files = [
+      changedFile('src/config.ts', 'export {};'),
+      changedFile('src/server.ts', "import './config';"),
+      changedFile('src/cli.ts', "import './config';"),
+    ];
+
+    assert.deepEqual(paths(groupRelatedFiles(files)), [['src/config.ts', 'src/server.ts', 'src/cli.ts']]);
+  });
+});
+
+describe('testSubject', () => {
+  it('names the stem a test file covers', () => {
+    assert.equal(testSubject('src/users.test.ts'), 'users');
+    assert.equal(testSubject('src/users.spec.js'), 'users');
+    assert.equal(testSubject('tests/test_users.py'), 'users');
+    assert.equal(testSubject('tests/users_test.py'), 'users');
+    assert.equal(testSubject('spec/models/user_spec.rb'), 'user');
+    assert.equal(testSubject('pkg/store/store_test.go'), 'store');
+  });
+
+  it('returns undefined for files that are not tests', () => {
+    assert.equal(testSubject('src/users.ts'), undefined);
+    assert.equal(testSubject('src/contest.ts'), undefined);
+    assert.equal(testSubject('src/latest.ts'), undefined);
+  });
+});
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict';
+import * as mocha from 'mocha';
+import { parseDiff } from '../src/diffParser';
+
+// Fixtures are real `git diff` output, captured with the flags getDiff passes.
+
+const MOVED = '\x1b[35m';
+const RESET = '\x1b[m';
+
+/** `--color=always --color-moved=plain` with only the moved colours left on. */
+const movedDiff = [
+  'diff --git a/mod.ts b/mod.ts',
+  'index 6455484..8318d0d 100644',
+  '--- a/mod.ts',
+  '+++ b/mod.ts',
+  '@@ -1,10 +1,10 @@',
+  `${MOVED}-function a() {`,
+  '-  return 1;',
+  `${MOVED}-}`,
+  `${MOVED}-`,
+  ' function b() {',
+  '   const x = 1;',
+  '   const y = 2;',
+  '   const z = 3;',
+  '   return x + y + z;',
+  ' }',
+  `${MOVED}+`,
+  `${MOVED}+function a() {`,
+  '+  return 2;',
+  `${MOVED}+}`,
+  'diff --git a/old.txt b/new.txt',
+  'similarity index 84%',
+  'rename from old.txt',
+  'rename to new.txt',
+  'index 4083766..e38a6f2 100644',
+  '--- a/old.txt',
+  '+++ b/new.txt',
+  `@@ -2,7 +2,7 @@${RESET} ${RESET}line1`,
+  ' line2',
+  ' line3',
+  ' line4',
+  '-line5',
+  '+line five',
+  ' line6',
+  ' line7',
+  ' line8',
+].map(line => line + RESET).join('\n') + '\n';
+
+const copyAndSubmoduleDiff = `diff --git a/src.txt b/copy.txt
+similarity index 86%
+copy from src.txt
+copy to copy.txt
+index 1e395f2..9901384 100644
+--- a/src.txt
++++ b/copy.txt
+@@ -5,4 +5,4 @@ delta
+ epsilon
+ zeta
+ eta
+-theta
++THETA
+diff --git a/lib/sub b/lib/sub
+new file mode 160000
+index 0000000..132abbb
+--- /dev/null
++++ b/lib/sub
+@@ -0,0 +1 @@
++Subproject commit 132abbbd581b042f671ea48d69c001b3ea216318
+diff --git a/lib/other b/lib/other
+index 132abbb..4d60bc6 160000
+--- a/lib/other
++++ b/lib/other
+@@ -1 +1 @@
+-Subproject commit 132abbbd581b042f671ea48d69c001b3ea216318
++Subproject commit 4d60bc64c2e26b3f3c545bdf827aba48b30417dc
+`;
+
+describe('parseDiff', () => {
+  it('numbers added lines in the new file and removed lines in the old one', () => {
+    const [mod] = parseDiff(movedDiff, []);
+    const hunk = mod.hunks[0];
+
+    assert.equal(mod.path, 'mod.ts');
+    assert.deepEqual([hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines], [1, 10, 1, 10]);
+    assert.deepEqual(hunk.removedLines, [1, 2, 3, 4]);
+    assert.deepEqual(hunk.addedLines, [7, 8, 9, 10]);
+  });
+
+  it('marks lines with the moved-code colour and strips the escapes', () => {
+    const [mod, renamed] = parseDiff(movedDiff, []);
+    const hunk = mod.hunks[0];
+
+    assert.deepEqual(hunk.movedRemovedLines, [1, 3, 4]);
+    assert.deepEqual(hunk.movedLines, [7, 8, 10]);
+    assert.equal(hunk.content.includes('\x1b'), false);
+    assert.equal(renamed.hunks[0].header, 'line1');
+  });
+
+  it('reads rename headers', () => {
+    const renamed = parseDiff(movedDiff, [])[1];
+
+    assert.equal(renamed.path, 'new.txt');
+    assert.equal(renamed.oldPath, 'old.txt');
+    assert.equal(renamed.isRenamed, true);
+    assert.equal(renamed.isCopied, false);
+    assert.equal(renamed.similarity, 84);
+    assert.deepEqual(renamed.hunks[0].removedLines, [5]);
+    assert.deepEqual(renamed.hunks[0].addedLines, [5]);
+  });
+
+  it('reads copy headers', () => {
+    const [copy] = parseDiff(copyAndSubmoduleDiff, []);
+
+    assert.equal(copy.path, 'copy.txt');
+    assert.equal(copy.oldPath, 'src.txt');
+    assert.equal(copy.isCopied, true);
+    assert.equal(copy.isRenamed, false);
+    assert.equal(copy.similarity, 86);
+    assert.deepEqual(copy.hunks[0].addedLines, [8]);
+  });
+
+  it('records submodule pointers (mode 160000) as a commit range without hunks', () => {
+    const [, added, updated] = parseDiff(copyAndSubmoduleDiff, []);
+
+    assert.equal(added.path, 'lib/sub');
+    assert.equal(added.isNew, true);
+    assert.deepEqual(added.hunks, []);
+    assert.deepEqual(added.submodule, { newCommit: '132abbbd581b042f671ea48d69c001b3ea216318' });
+    assert.deepEqual(updated.submodule, {
+      oldCommit: '132abbbd581b042f671ea48d69c001b3ea216318',
+      newCommit: '4d60bc64c2e26b3f3c545bdf827aba48b30417dc',
+    });
+  });
+
+  it('skips files matching the exclude patterns', () => {
+    assert.deepEqual(parseDiff(copyAndSubmoduleDiff, ['lib/**']).map(f => f.path), ['copy.txt']);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import * as mocha from 'mocha';
+import { findingScore, meetsMinConfidence, validateFinding } from '../src/findings';
+
+describe('validateFinding', () => {
+  const raw = {
+    file: 'src/a.ts',
+    startLine: 3,
+    endLine: 5,
+    severity: 'high',
+    category: 'correctness',
+    title: 'Off by one',
+    description: 'The loop skips the last item.',
+    suggestedFix: null,
+    confidence: 0.8,
+  };
+
+  it('accepts a finding that matches the schema', () => {
+    const finding = validateFinding(raw);
+    assert.ok(typeof finding !== 'string');
+    assert.match(finding.id, /^sr-/);
+    assert.deepEqual({ ...finding, id: '' }, {
+      id: '',
+      file: 'src/a.ts',
+      startLine: 3,
+      endLine: 5,
+      severity: 'high',
+      title: 'Off by one',
+      description: 'The loop skips the last item.',
+      suggestedFix: undefined,
+      category: 'correctness',
+      confidence: 0.8,
+      status: 'open',
+    });
+  });
+
+  it('defaults endLine to startLine and leaves out a missing confidence', () => {
+    const { endLine: _endLine, confidence: _confidence, ...rest } = raw;
+    const finding = validateFinding(rest);
+    assert.ok(typeof finding !== 'string');
+    assert.equal(finding.endLine, 3);
+    assert.equal('confidence' in finding, false);
+  });
+
+  it('names the reason a finding is rejected', () => {
+    assert.equal(validateFinding('a finding'), 'not an object');
+    assert.equal(validateFinding([raw]), 'not an object');
+    assert.equal(validateFinding({ ...raw, file: '' }), 'missing file or title');
+    assert.equal(validateFinding({ ...raw, title: undefined }), 'missing file or title');
+    assert.equal(validateFinding({ ...raw, severity: 'critical' }), 'unknown severity');
+    assert.equal(validateFinding({ ...raw, category: 'naming' }), 'unknown category');
+    assert.equal(validateFinding({ ...raw, side: 'both' }), 'invalid field');
+  });
+
+  it('rejects out-of-range and non-integer lines', () => {
+    assert.equal(validateFinding({ ...raw, startLine: 0 }), 'invalid line range');
+    assert.equal(validateFinding({ ...raw, startLine: 6 }), 'invalid line range');
+    assert.equal(validateFinding({ ...raw, startLine: 2.5 }), 'invalid line range');
+    assert.equal(validateFinding({ ...raw, startLine: '3' }), 'invalid line range');
+  });
+
+  it('rejects a confidence outside 0..1', () => {
+    assert.equal(validateFinding({ ...raw, confidence: 1.5 }), 'invalid confidence');
+    assert.equal(validateFinding({ ...raw, confidence: -0.1 }), 'invalid confidence');
+    assert.equal(validateFinding({ ...raw, confidence: 'high' }), 'invalid confidence');
+  });
+});
+
+describe('min_confidence and scoring', () => {
+  const finding = (confidence?: number) => {
+    const f = validateFinding({ file: 'a.ts', startLine: 1, severity: 'medium', category: 'style', title: 't', confidence });
+    assert.ok(typeof f !== 'string');
+    return f;
+  };
+
+  it('drops findings below min_confidence', () => {
+    assert.equal(meetsMinConfidence(finding(0.3), 0.5), false);
+    assert.equal(meetsMinConfidence(finding(0.5), 0.5), true);
+  });
+
+  it('keeps findings that give no confidence, whatever min_confidence is', () => {
+    assert.equal(meetsMinConfidence(finding(), 0.9), true);
+  });
+
+  it('weights severity by confidence, counting a missing confidence as certain', () => {
+    assert.equal(findingScore(finding(0.5)), 1.5);
+    assert.equal(findingScore(finding()), 3);
+  });
+});
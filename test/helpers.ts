@@ -0,0 +1,29 @@
+import { DiffFile, DiffHunk } from '../src/types';
+
+export function makeHunk(newStart: number, newLines: number, addedLines: number[]): DiffHunk {
+  return {
+    file: 'src/foo.ts',
+    oldStart: newStart,
+    oldLines: newLines,
+    newStart,
+    newLines,
+    header: 'function foo()',
+    content: '',
+    addedLines,
+    removedLines: [],
+  };
+}
+
+/** A modified file with the given content and one added line, for ordering and grouping tests. */
+export function changedFile(path: string, fullContent: string): DiffFile {
+  return {
+    path,
+    isNew: false,
+    isDeleted: false,
+    isBinary: false,
+    isRenamed: false,
+    isCopied: false,
+    fullContent,
+    hunks: [makeHunk(1, 1, [1])],
+  };
+}
@@ -0,0 +1,25 @@
+import assert from 'node:assert/strict';
+import * as mocha from 'mocha';
+import { JsonArrayStreamParser } from '../src/jsonStream';
+
+describe('JsonArrayStreamParser', () => {
+  it('emits each object as soon as it is complete', () => {
+    const parser = new JsonArrayStreamParser();
+    assert.deepEqual(parser.push('```json\n[{"file": "a.ts", "startLine": 1'), []);
+    assert.deepEqual(parser.push('}, {"file": "b'), [{ file: 'a.ts', startLine: 1 }]);
+    assert.deepEqual(parser.push('.ts", "tags": ["x"]}]\n```'), [{ file: 'b.ts', tags: ['x'] }]);
+  });
+
+  it('ignores braces and brackets inside strings', () => {
+    const parser = new JsonArrayStreamParser();
+    const objects = parser.push('[{"title": "Close } and ] \\"quoted\\" {"}]');
+    assert.deepEqual(objects, [{ title: 'Close } and ] "quoted" {' }]);
+  });
+
+  it('skips bracketed prose before the array and elements that do not parse', () => {
+    const parser = new JsonArrayStreamParser();
+    const objects = parser.push('Findings [see below]:\n[{"a": 1}, {"b": oops}, {"c": 3}] [{"d": 4}]');
+    assert.deepEqual(objects, [{ a: 1 }, { c: 3 }]);
+    assert.equal(parser.malformed, 1);
+  });
+});